@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAdminRequest } from '../../../../../src/admin-auth';
+import { getCatalogStore } from '../../../../../src/catalog-store';
+
+/**
+ * Diff two catalog versions: /api/admin/catalog/diff?from=<id>&to=<id>
+ * `to` defaults to the live version
+ */
+export async function GET(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const store = getCatalogStore();
+  const { searchParams } = new URL(request.url);
+  const from = searchParams.get('from');
+  const to = searchParams.get('to') || store.getCurrentVersionId();
+
+  if (!from || !to) {
+    return NextResponse.json({ error: 'from is required' }, { status: 400 });
+  }
+
+  try {
+    return NextResponse.json(store.diff(from, to));
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : String(error) },
+      { status: 404 }
+    );
+  }
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAdminRequest } from '../../../../../src/admin-auth';
+import { getCatalogStore } from '../../../../../src/catalog-store';
+
+/**
+ * Make a stored version live after validation. Body: { version, force? }
+ */
+export async function POST(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const body = await request.json().catch(() => ({}));
+  if (!body.version) {
+    return NextResponse.json({ success: false, error: 'version is required' }, { status: 400 });
+  }
+
+  try {
+    const version = getCatalogStore().promote(body.version, { force: body.force === true });
+    return NextResponse.json({ success: true, version });
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : String(error) },
+      { status: 422 }
+    );
+  }
+}
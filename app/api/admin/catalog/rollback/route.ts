@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAdminRequest } from '../../../../../src/admin-auth';
+import { getCatalogStore } from '../../../../../src/catalog-store';
+
+/**
+ * Make an earlier version live again. Body: { version? }, defaults to the one before the live version
+ */
+export async function POST(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const body = await request.json().catch(() => ({}));
+
+  try {
+    const version = getCatalogStore().rollback(body.version);
+    return NextResponse.json({ success: true, version });
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : String(error) },
+      { status: 422 }
+    );
+  }
+}
@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAdminRequest } from '../../../../src/admin-auth';
+import { getCatalogStore } from '../../../../src/catalog-store';
+
+/**
+ * List the stored catalog versions, newest first, and which one is live
+ */
+export async function GET(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    return NextResponse.json(getCatalogStore().list());
+  } catch (error) {
+    console.error('Error listing catalog versions:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createHash } from 'crypto';
+import { findAgent, searchAgents } from '../../../../src/agent-directory';
+import { getCatalogService } from '../../../../src/catalog';
+import { getAppConfig } from '../../../../src/config';
+import { catalogResponse } from '../catalog-response';
+
+/**
+ * Agent directory: /api/catalog/agents?q=abadi&page=1&pageSize=20
+ * q matches name fragments, an MRP code or a numeric ID; /api/catalog/agents?id=2851 returns one agent
+ * and /api/catalog/agents?default the configured default agent (defaultAgent).
+ * The default is not cached: the setting can change while the catalog stays the same.
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const isDefault = searchParams.has('default');
+  const id = isDefault ? getAppConfig().defaultAgent : searchParams.get('id');
+  const query = searchParams.get('q') || '';
+  const page = parseInt(searchParams.get('page') || '1', 10);
+  const pageSize = parseInt(searchParams.get('pageSize') || '0', 10) || undefined;
+
+  const variantKey = id !== null ? `id:${id}` : `q:${query}|page:${page}|size:${pageSize || ''}`;
+  const variant = `agents-${createHash('sha1').update(variantKey).digest('hex').slice(0, 12)}`;
+
+  if (id !== null) {
+    let agent;
+    try {
+      agent = findAgent(getCatalogService().getCatalog().agents, id);
+    } catch (error) {
+      return NextResponse.json({ error: 'No catalog file found' }, { status: 404 });
+    }
+    if (!agent) {
+      return NextResponse.json({ error: `Agent not found: ${id}` }, { status: 404 });
+    }
+    if (isDefault) {
+      return NextResponse.json(agent, { headers: { 'Cache-Control': 'no-store' } });
+    }
+    return catalogResponse(request, variant, (snapshot) => findAgent(snapshot.catalog.agents, id));
+  }
+
+  return catalogResponse(request, variant, (snapshot) =>
+    searchAgents(snapshot.catalog.agents, { query, page, pageSize })
+  );
+}
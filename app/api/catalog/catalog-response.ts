@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CatalogSnapshot, getCatalogService } from '../../../src/catalog';
+
+/**
+ * JSON response for a view of the live catalog, honoring If-None-Match and
+ * If-Modified-Since so the browser can revalidate instead of downloading again.
+ * `variant` distinguishes representations derived from the same catalog file.
+ */
+export function catalogResponse(
+  request: NextRequest,
+  variant: string,
+  body: (snapshot: CatalogSnapshot) => unknown
+): NextResponse {
+  let snapshot: CatalogSnapshot;
+  try {
+    snapshot = getCatalogService().getSnapshot();
+  } catch (error) {
+    console.error('Error loading catalog:', error);
+    return NextResponse.json(
+      { error: 'No catalog file found' },
+      { status: 404 }
+    );
+  }
+
+  const etag = variant ? `${snapshot.etag.slice(0, -1)}-${variant}"` : snapshot.etag;
+  const headers = {
+    ETag: etag,
+    'Last-Modified': snapshot.lastModified.toUTCString(),
+    'Cache-Control': 'no-cache', // Always revalidate, the catalog can be promoted at any time
+  };
+
+  if (isNotModified(request, etag, snapshot.lastModified)) {
+    return new NextResponse(null, { status: 304, headers });
+  }
+  return NextResponse.json(body(snapshot), { headers });
+}
+
+function isNotModified(request: NextRequest, etag: string, lastModified: Date): boolean {
+  const ifNoneMatch = request.headers.get('if-none-match');
+  if (ifNoneMatch) {
+    // If-None-Match takes precedence over If-Modified-Since
+    return ifNoneMatch.split(',').some((tag) => tag.trim().replace(/^W\//, '') === etag || tag.trim() === '*');
+  }
+
+  const ifModifiedSince = request.headers.get('if-modified-since');
+  if (ifModifiedSince) {
+    const since = Date.parse(ifModifiedSince);
+    return !Number.isNaN(since) && lastModified.getTime() <= since;
+  }
+  return false;
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createHash } from 'crypto';
+import { getCatalogService } from '../../../../src/catalog';
+import { CatalogResolver } from '../../../../src/catalog-resolver';
+import { catalogResponse } from '../catalog-response';
+
+/**
+ * Destinations by trip type: /api/catalog/destinations?tripType=Anual%20Multiviaje
+ * Without tripType, the full trip type -> destinations map.
+ * The trip type can be given by its text or its value.
+ */
+export async function GET(request: NextRequest) {
+  const tripType = new URL(request.url).searchParams.get('tripType');
+  if (!tripType) {
+    return catalogResponse(request, 'destinations', (snapshot) => snapshot.catalog.destinations);
+  }
+
+  let match;
+  try {
+    match = new CatalogResolver(getCatalogService().getCatalog()).resolveTripType(tripType);
+  } catch (error) {
+    return NextResponse.json({ error: 'No catalog file found' }, { status: 404 });
+  }
+  if (match.status !== 'matched') {
+    return NextResponse.json({ error: `Unknown trip type: ${tripType}`, match }, { status: 404 });
+  }
+
+  const tripTypeValue = match.option.value;
+  const variant = `destinations-${createHash('sha1').update(tripTypeValue).digest('hex').slice(0, 8)}`;
+  return catalogResponse(request, variant, (snapshot) => snapshot.catalog.destinations[tripTypeValue] || []);
+}
@@ -0,0 +1,6 @@
+import { NextRequest } from 'next/server';
+import { catalogResponse } from '../catalog-response';
+
+export async function GET(request: NextRequest) {
+  return catalogResponse(request, 'origins', (snapshot) => snapshot.catalog.origins);
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { loadCatalogData } from '../../../../src/catalog';
+import { CatalogResolver } from '../../../../src/catalog-resolver';
+
+/**
+ * Resolve free text to a catalog entry, e.g.
+ * /api/catalog/resolve?field=origin&q=Republica%20Dominicana
+ * /api/catalog/resolve?field=destination&q=Europe&tripType=Viajes%20Por%20D%C3%ADa
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const field = searchParams.get('field');
+  const query = searchParams.get('q') || '';
+
+  try {
+    const resolver = new CatalogResolver(loadCatalogData());
+    switch (field) {
+      case 'tripType':
+        return NextResponse.json(resolver.resolveTripType(query));
+      case 'origin':
+        return NextResponse.json(resolver.resolveOrigin(query));
+      case 'destination':
+        return NextResponse.json(resolver.resolveDestination(query, searchParams.get('tripType') || ''));
+      case 'agent':
+        return NextResponse.json(resolver.resolveAgent(query));
+      default:
+        return NextResponse.json(
+          { error: 'field must be one of tripType, origin, destination, agent' },
+          { status: 400 }
+        );
+    }
+  } catch (error) {
+    console.error('Error resolving catalog value:', error);
+    return NextResponse.json(
+      { error: 'Failed to load catalog' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,41 +1,24 @@
-import { NextResponse } from 'next/server';
-import path from 'path';
-import fs from 'fs';
+import { NextRequest } from 'next/server';
+import { CatalogData } from '../../../src/types';
+import { catalogResponse } from './catalog-response';
 
-export async function GET() {
-  try {
-    const dataDir = path.join(process.cwd(), 'data');
-    const catalogPath = path.join(dataDir, 'catalog.json');
-    
-    // First try the standard catalog.json file
-    if (fs.existsSync(catalogPath)) {
-      const catalogData = JSON.parse(fs.readFileSync(catalogPath, 'utf-8'));
-      return NextResponse.json(catalogData);
-    }
-    
-    // Fallback: try to find timestamped catalog files
-    if (fs.existsSync(dataDir)) {
-      const files = fs.readdirSync(dataDir);
-      const catalogFiles = files.filter(f => f.startsWith('catalog-') && f.endsWith('.json'));
-      
-      if (catalogFiles.length > 0) {
-        const catalogFile = catalogFiles.sort().reverse()[0];
-        const timestampedCatalogPath = path.join(dataDir, catalogFile);
-        const catalogData = JSON.parse(fs.readFileSync(timestampedCatalogPath, 'utf-8'));
-        return NextResponse.json(catalogData);
-      }
-    }
-    
-    return NextResponse.json(
-      { error: 'No catalog file found' },
-      { status: 404 }
-    );
-  } catch (error) {
-    console.error('Error loading catalog:', error);
-    return NextResponse.json(
-      { error: 'Failed to load catalog' },
-      { status: 500 }
-    );
+const CATALOG_SECTIONS: Array<keyof CatalogData> = ['tripTypes', 'origins', 'destinations', 'agents'];
+
+/**
+ * The full catalog, or only some sections: /api/catalog?include=tripTypes,origins,destinations
+ * (the agent list is large; the quote form searches it through /api/catalog/agents instead)
+ */
+export async function GET(request: NextRequest) {
+  const include = new URL(request.url).searchParams.get('include');
+  const sections = include
+    ? CATALOG_SECTIONS.filter((section) => include.split(',').map((s) => s.trim()).includes(section))
+    : CATALOG_SECTIONS;
+
+  if (sections.length === CATALOG_SECTIONS.length) {
+    return catalogResponse(request, '', (snapshot) => snapshot.catalog);
   }
-}
 
+  return catalogResponse(request, sections.join('-'), (snapshot) =>
+    Object.fromEntries(sections.map((section) => [section, snapshot.catalog[section]]))
+  );
+}
@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { checkLayoutDrift } from '../../../src/layout-drift';
+
+export const maxDuration = 60; // Fetches the quote, result and purchase pages
+
+export async function GET() {
+  try {
+    const report = await checkLayoutDrift();
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error('Error verificando cambios de diseño:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
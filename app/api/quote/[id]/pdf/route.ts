@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getQuoteHistory, isShareExpired } from '../../../../../src/quote-history';
+import { loadCatalogData } from '../../../../../src/catalog';
+import { findAgent } from '../../../../../src/agent-directory';
+import { generateProposalPdf } from '../../../../../src/quote-proposal';
+import { AgentEntry } from '../../../../../src/types';
+
+export const maxDuration = 60; // 60 seconds timeout
+
+/**
+ * Quote proposal as a PDF, by the quote's share ID. History IDs are listed by
+ * /api/quotes, so they are not accepted: the download expires with the share link.
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+
+  try {
+    const record = getQuoteHistory().getByShareId(id);
+    if (!record) {
+      return NextResponse.json({ error: `Quote not found: ${id}` }, { status: 404 });
+    }
+    if (isShareExpired(record)) {
+      return NextResponse.json({ error: 'Shared quote link has expired' }, { status: 410 });
+    }
+    if (!record.success || record.plans.length === 0) {
+      return NextResponse.json({ error: 'Quote has no plans to include in a proposal' }, { status: 409 });
+    }
+
+    let agent: AgentEntry | null = null;
+    if (record.agent) {
+      try {
+        agent = findAgent(loadCatalogData().agents, record.agent);
+      } catch {
+        // The proposal is still useful without the agent's name
+      }
+    }
+
+    const pdf = await generateProposalPdf(record, agent);
+    const fileName = `propuesta-${record.origin}-${record.destination}-${record.departureDate}`
+      .normalize('NFD')
+      .replace(/[^\w-]+/g, '-')
+      .toLowerCase();
+
+    return new NextResponse(new Uint8Array(pdf), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `inline; filename="${fileName}.pdf"`,
+        'Cache-Control': 'private, no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Error generating quote proposal PDF:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
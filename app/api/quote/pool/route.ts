@@ -0,0 +1,6 @@
+import { NextResponse } from 'next/server';
+import { getSessionPool } from '../../../../src/session-pool';
+
+export async function GET() {
+  return NextResponse.json(getSessionPool().getStats());
+}
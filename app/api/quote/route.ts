@@ -1,35 +1,44 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { MercantilSegurosBot } from '../../../src/index';
+import { generateQuoteWithFallback } from '../../../src/quote-strategy';
+import { loadCatalogData } from '../../../src/catalog';
+import { describeValidationErrors, resolveQuoteConfig } from '../../../src/quote-validator';
+import { recordQuote } from '../../../src/quote-history';
 import { QuoteConfig } from '../../../src/types';
+import { getAppConfig } from '../../../src/config';
 
 export const maxDuration = 60; // 60 seconds timeout
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const config: QuoteConfig = {
+    const input: QuoteConfig = {
       tripType: body.tripType,
       origin: body.origin,
       destination: body.destination,
       departureDate: body.departureDate,
       returnDate: body.returnDate,
       passengers: parseInt(body.passengers),
-      ages: body.ages.map((age: string) => parseInt(age)),
-      agent: body.agent || '2851',
+      ages: Array.isArray(body.ages) ? body.ages.map((age: string) => parseInt(age)) : [],
+      agent: body.agent || getAppConfig().defaultAgent,
     };
 
-    const bot = new MercantilSegurosBot();
-    
-    try {
-      await bot.initialize();
-      const result = await bot.generateQuote(config);
-      await bot.close();
-
-      return NextResponse.json(result);
-    } catch (error) {
-      await bot.close().catch(() => {});
-      throw error;
+    // Map free text to catalog entries; reject what cannot be resolved instead of quoting a silent default
+    const { config, errors: validationErrors } = resolveQuoteConfig(input, loadCatalogData());
+    if (validationErrors.length > 0) {
+      const rejected = {
+        success: false,
+        error: describeValidationErrors(validationErrors),
+        validationErrors,
+      };
+      return NextResponse.json({ ...rejected, ...recordQuote(config, rejected) }, { status: 400 });
     }
+
+    // Try the direct HTTP client first; the browser is only used as a fallback
+    const strategy = ['http', 'browser', 'auto'].includes(body.strategy) ? body.strategy : 'auto';
+    const result = await generateQuoteWithFallback(config, { strategy });
+    console.log(`⏱️ Cotización generada vía ${result.strategy} en ${result.durationMs}ms`);
+
+    return NextResponse.json({ ...result, ...recordQuote(config, result) });
   } catch (error) {
     console.error('Error generando cotización:', error);
     return NextResponse.json(
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { generateQuoteWithFallback } from '../../../../../src/quote-strategy';
+import { loadCatalogData } from '../../../../../src/catalog';
+import { describeValidationErrors, resolveQuoteConfig } from '../../../../../src/quote-validator';
+import { getQuoteHistory, recordQuote } from '../../../../../src/quote-history';
+import { daysSinceQuote, diffPlanPrices, shiftQuoteDates } from '../../../../../src/requote';
+
+export const maxDuration = 60; // 60 seconds timeout
+
+/**
+ * Run a stored quote again with its dates shifted and compare prices per plan.
+ * Body: { shiftDays?: number, strategy?: 'http' | 'browser' | 'auto' }; shiftDays defaults
+ * to the days elapsed since the original quote, keeping the same lead time before departure.
+ */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+
+  try {
+    const original = getQuoteHistory().get(id);
+    if (!original) {
+      return NextResponse.json({ success: false, error: `Quote not found: ${id}` }, { status: 404 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const shiftDays = body.shiftDays === undefined ? daysSinceQuote(original.createdAt) : parseInt(body.shiftDays, 10);
+    if (!Number.isFinite(shiftDays)) {
+      return NextResponse.json({ success: false, error: 'shiftDays must be a whole number' }, { status: 400 });
+    }
+
+    // Resolve again in case the catalog changed since the original quote
+    const { config, errors: validationErrors } = resolveQuoteConfig(
+      shiftQuoteDates(original.config, shiftDays),
+      loadCatalogData()
+    );
+    if (validationErrors.length > 0) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: describeValidationErrors(validationErrors),
+          validationErrors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const strategy = ['http', 'browser', 'auto'].includes(body.strategy) ? body.strategy : 'auto';
+    const result = await generateQuoteWithFallback(config, { strategy });
+    console.log(`🔁 Recotización de ${id} (${shiftDays >= 0 ? '+' : ''}${shiftDays} días) vía ${result.strategy} en ${result.durationMs}ms`);
+
+    return NextResponse.json({
+      ...result,
+      ...recordQuote(config, result),
+      previousQuoteId: id,
+      shiftDays,
+      config,
+      changes: result.success ? diffPlanPrices(original.plans, result.quoteData?.plans || []) : [],
+    });
+  } catch (error) {
+    console.error('Error re-quoting:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getQuoteHistory, toHistoryRecord } from '../../../../src/quote-history';
+
+/**
+ * One stored quote with its config and plans: /api/quotes/<id>. The share ID is left out;
+ * only the /api/quote response that created the quote returns it.
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+
+  try {
+    const record = getQuoteHistory().get(id);
+    if (!record) {
+      return NextResponse.json({ error: `Quote not found: ${id}` }, { status: 404 });
+    }
+    return NextResponse.json(toHistoryRecord(record));
+  } catch (error) {
+    console.error('Error reading quote history:', error);
+    return NextResponse.json({ error: 'Failed to read quote history' }, { status: 500 });
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getQuoteHistory } from '../../../../src/quote-history';
+import { exportQuotes } from '../../../../src/pricing-export';
+import { parseHistoryFilter } from '../history-filter';
+
+/**
+ * Stored quotes in the PRICING_TABLE_FORMAT.md layouts:
+ * /api/quotes/export?format=csv&from=2025-01-01&to=2025-01-31 (same filters as /api/quotes)
+ * ids=<id>,<id> exports specific quotes instead.
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const format = searchParams.get('format') || 'json';
+  if (format !== 'csv' && format !== 'json') {
+    return NextResponse.json({ error: 'format must be csv or json' }, { status: 400 });
+  }
+
+  const parsed = parseHistoryFilter(searchParams);
+  if (parsed.error !== undefined) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+
+  try {
+    const history = getQuoteHistory();
+    const ids = (searchParams.get('ids') || '').split(',').map((id) => id.trim()).filter(Boolean);
+    const records = ids.length > 0
+      ? ids.map((id) => history.get(id)).filter((record) => record !== null)
+      : history.findRecords({ ...parsed.filter, success: true });
+
+    const body = exportQuotes(records, format);
+    const fileName = `cotizaciones-${new Date().toISOString().slice(0, 10)}.${format}`;
+    return new NextResponse(body, {
+      headers: {
+        'Content-Type': format === 'csv' ? 'text/csv; charset=utf-8' : 'application/json; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting quotes:', error);
+    return NextResponse.json({ error: 'Failed to export quotes' }, { status: 500 });
+  }
+}
@@ -0,0 +1,35 @@
+import { resolveHistoryFilter } from '../../../src/quote-history';
+import { QuoteHistoryFilter } from '../../../src/types';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Read the history filters shared by /api/quotes and /api/quotes/export
+ */
+export function parseHistoryFilter(searchParams: URLSearchParams): { filter: QuoteHistoryFilter; error?: undefined } | { error: string } {
+  const from = searchParams.get('from') || undefined;
+  const to = searchParams.get('to') || undefined;
+  const success = searchParams.get('success');
+
+  for (const [name, value] of [['from', from], ['to', to]]) {
+    if (value && !DATE_PATTERN.test(value)) {
+      return { error: `${name} must be a date in YYYY-MM-DD format` };
+    }
+  }
+  if (success !== null && success !== 'true' && success !== 'false') {
+    return { error: 'success must be true or false' };
+  }
+
+  return {
+    filter: resolveHistoryFilter({
+      from,
+      to,
+      origin: searchParams.get('origin') || undefined,
+      destination: searchParams.get('destination') || undefined,
+      agent: searchParams.get('agent') || undefined,
+      success: success === null ? undefined : success === 'true',
+      limit: parseInt(searchParams.get('limit') || '0', 10) || undefined,
+      offset: parseInt(searchParams.get('offset') || '0', 10) || undefined,
+    }),
+  };
+}
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getQuoteHistory } from '../../../src/quote-history';
+import { parseHistoryFilter } from './history-filter';
+
+/**
+ * Quote history, newest first:
+ * /api/quotes?from=2025-01-01&to=2025-01-31&origin=Panama&destination=Europa&agent=2851&success=true&limit=50&offset=0
+ * Origin and destination accept the same free text as a quote request.
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const parsed = parseHistoryFilter(searchParams);
+  if (parsed.error !== undefined) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+
+  try {
+    return NextResponse.json(getQuoteHistory().list(parsed.filter));
+  } catch (error) {
+    console.error('Error reading quote history:', error);
+    return NextResponse.json({ error: 'Failed to read quote history' }, { status: 500 });
+  }
+}
@@ -0,0 +1,175 @@
+'use client';
+
+import { useState, useRef, useEffect } from 'react';
+import { AgentEntry, AgentSearchResult } from '../../src/types';
+
+interface AgentPickerProps {
+  id: string;
+  label: string;
+  value: string; // Agent ID
+  onChange: (value: string) => void;
+}
+
+/**
+ * Agent picker backed by /api/catalog/agents, so the browser never downloads the full list
+ */
+export default function AgentPicker({ id, label, value, onChange }: AgentPickerProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [selectedAgent, setSelectedAgent] = useState<AgentEntry | null>(null);
+  const [results, setResults] = useState<AgentSearchResult | null>(null);
+  const [agents, setAgents] = useState<AgentEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Show the selected agent's name
+  useEffect(() => {
+    if (!value || selectedAgent?.value === value) return;
+    fetch(`/api/catalog/agents?id=${encodeURIComponent(value)}`)
+      .then(response => (response.ok ? response.json() : null))
+      .then(agent => setSelectedAgent(agent))
+      .catch(() => setSelectedAgent(null));
+  }, [value, selectedAgent]);
+
+  // Search as the user types, debounced
+  useEffect(() => {
+    if (!isOpen) return;
+    const timer = setTimeout(() => loadPage(1), 250);
+    return () => clearTimeout(timer);
+  }, [searchTerm, isOpen]);
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+        setSearchTerm('');
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  const loadPage = async (page: number) => {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams({ q: searchTerm, page: String(page) });
+      const response = await fetch(`/api/catalog/agents?${params}`);
+      if (!response.ok) return;
+      const data: AgentSearchResult = await response.json();
+      setResults(data);
+      setAgents(prev => (page === 1 ? data.items : [...prev, ...data.items]));
+    } catch (error) {
+      console.error('Error al buscar agentes:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const selectAgent = (agent: AgentEntry) => {
+    setSelectedAgent(agent);
+    onChange(agent.value);
+    setIsOpen(false);
+    setSearchTerm('');
+  };
+
+  return (
+    <div className="form-group">
+      <label htmlFor={id}>{label}</label>
+      <div ref={containerRef} style={{ position: 'relative' }}>
+        <div
+          onClick={() => setIsOpen(!isOpen)}
+          style={{
+            padding: '0.75rem',
+            border: '2px solid #e0e0e0',
+            borderRadius: '8px',
+            cursor: 'pointer',
+            backgroundColor: 'white',
+            display: 'flex',
+            justifyContent: 'space-between',
+            alignItems: 'center',
+          }}
+        >
+          <span>{selectedAgent?.text || 'Buscar agente...'}</span>
+          <span>{isOpen ? '▲' : '▼'}</span>
+        </div>
+        {isOpen && (
+          <div
+            style={{
+              position: 'absolute',
+              top: '100%',
+              left: 0,
+              right: 0,
+              backgroundColor: 'white',
+              border: '2px solid #e0e0e0',
+              borderRadius: '8px',
+              marginTop: '4px',
+              maxHeight: '300px',
+              overflow: 'auto',
+              zIndex: 1000,
+              boxShadow: '0 5px 15px rgba(0,0,0,0.1)',
+            }}
+          >
+            <input
+              id={id}
+              type="text"
+              placeholder="Nombre, código MRP o ID..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              onClick={(e) => e.stopPropagation()}
+              style={{
+                width: '100%',
+                padding: '0.75rem',
+                border: 'none',
+                borderBottom: '1px solid #e0e0e0',
+                borderRadius: '8px 8px 0 0',
+                fontSize: '1rem',
+              }}
+            />
+            <div style={{ maxHeight: '250px', overflow: 'auto' }}>
+              {agents.map((agent) => (
+                <div
+                  key={agent.value}
+                  onClick={() => selectAgent(agent)}
+                  style={{
+                    padding: '0.75rem',
+                    cursor: 'pointer',
+                    borderBottom: '1px solid #f0f0f0',
+                    backgroundColor: value === agent.value ? '#f0f0ff' : 'white',
+                  }}
+                  onMouseEnter={(e) => {
+                    e.currentTarget.style.backgroundColor = '#f5f5f5';
+                  }}
+                  onMouseLeave={(e) => {
+                    e.currentTarget.style.backgroundColor = value === agent.value ? '#f0f0ff' : 'white';
+                  }}
+                >
+                  {agent.name}
+                  {agent.mrpCode && <small style={{ color: '#666', marginLeft: '0.5rem' }}>{agent.mrpCode}</small>}
+                </div>
+              ))}
+              {!loading && agents.length === 0 && (
+                <div style={{ padding: '0.75rem', color: '#999' }}>
+                  No se encontraron resultados
+                </div>
+              )}
+              {results && results.page < results.totalPages && (
+                <button
+                  type="button"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    loadPage(results.page + 1);
+                  }}
+                  disabled={loading}
+                  style={{ width: '100%', padding: '0.5rem', borderRadius: 0 }}
+                >
+                  {loading ? 'Cargando...' : `Cargar más (${results.total - agents.length} restantes)`}
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
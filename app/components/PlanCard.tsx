@@ -0,0 +1,44 @@
+import { QuotePlan } from '../../src/types';
+import { formatCoverage, formatMinorUnits } from '../../src/plan-details';
+
+interface PlanCardProps {
+  plan: QuotePlan;
+  passengers: number;
+  children?: React.ReactNode; // Actions below the plan details, e.g. the purchase button
+}
+
+/**
+ * One plan as shown on the results page; has no client state so shared quote pages can render it on the server
+ */
+export default function PlanCard({ plan, passengers, children }: PlanCardProps) {
+  return (
+    <div className="quote-card">
+      <h3>{plan.title}</h3>
+      <div className="coverage">
+        {plan.coverageAmount !== null ? `Cobertura ${formatCoverage(plan.coverageAmount, plan.currency)}` : ''}
+      </div>
+      <div className="price">{formatMinorUnits(plan.priceMinor, plan.currency)}</div>
+      {plan.pricePerPassengerMinor !== null && passengers > 1 && (
+        <div style={{ fontSize: '0.875rem', opacity: 0.9 }}>
+          {formatMinorUnits(plan.pricePerPassengerMinor, plan.currency)} por pasajero
+        </div>
+      )}
+      <div style={{ fontSize: '0.875rem', opacity: 0.9, marginTop: '0.5rem' }}>
+        ID del Plan: {plan.planId}
+      </div>
+      {plan.benefits && plan.benefits.length > 0 && (
+        <details style={{ marginTop: '0.75rem', fontSize: '0.875rem', textAlign: 'left' }}>
+          <summary style={{ cursor: 'pointer' }}>Ver coberturas ({plan.benefits.length})</summary>
+          <ul style={{ margin: '0.5rem 0 0 0', paddingLeft: '1.25rem' }}>
+            {plan.benefits.map((benefit, benefitIndex) => (
+              <li key={benefitIndex}>
+                <strong>{benefit.name}:</strong> {benefit.text}
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+      {children}
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+'use client';
+
+import { QuotePlan } from '../../src/types';
+import { buildComparisonRows } from '../../src/plan-comparison';
+
+interface PlanComparisonProps {
+  plans: QuotePlan[];
+  tripDays: number | null;
+  onClose: () => void;
+}
+
+export default function PlanComparison({ plans, tripDays, onClose }: PlanComparisonProps) {
+  const rows = buildComparisonRows(plans, tripDays);
+
+  return (
+    <div className="comparison">
+      <div style={{ marginBottom: '1rem', display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+        <h2>Comparación de Planes</h2>
+        <button onClick={onClose} style={{ width: 'auto', padding: '0.75rem 1.5rem' }}>
+          Volver a los planes
+        </button>
+      </div>
+
+      <div className="comparison-table-wrapper">
+        <table className="comparison-table">
+          <thead>
+            <tr>
+              <th></th>
+              {plans.map((plan) => (
+                <th key={plan.planId}>{plan.title}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => (
+              <tr key={row.label} className={row.differs ? 'differs' : undefined}>
+                <th scope="row">{row.label}</th>
+                {row.values.map((value, index) => (
+                  <td key={plans[index].planId}>{value}</td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <p style={{ marginTop: '0.75rem', color: '#666', fontSize: '0.875rem' }}>
+        Las filas resaltadas tienen valores distintos entre los planes seleccionados.
+      </p>
+    </div>
+  );
+}
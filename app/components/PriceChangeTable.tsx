@@ -0,0 +1,50 @@
+'use client';
+
+import { PlanPriceChange } from '../../src/types';
+import { formatMinorUnits } from '../../src/plan-details';
+
+interface PriceChangeTableProps {
+  changes: PlanPriceChange[];
+}
+
+const STATUS_LABELS: Record<PlanPriceChange['status'], string> = {
+  up: '▲ Subió',
+  down: '▼ Bajó',
+  unchanged: 'Sin cambio',
+  added: 'Nuevo',
+  removed: 'Ya no disponible',
+};
+
+export default function PriceChangeTable({ changes }: PriceChangeTableProps) {
+  return (
+    <div className="comparison-table-wrapper">
+      <table className="comparison-table">
+        <thead>
+          <tr>
+            <th>Plan</th>
+            <th>Precio original</th>
+            <th>Precio actual</th>
+            <th>Diferencia</th>
+            <th>Estado</th>
+          </tr>
+        </thead>
+        <tbody>
+          {changes.map((change) => (
+            <tr key={`${change.planId}-${change.title}`} className={change.status !== 'unchanged' ? 'differs' : undefined}>
+              <th scope="row">{change.title}</th>
+              <td>{formatMinorUnits(change.previousMinor, change.currency)}</td>
+              <td>{formatMinorUnits(change.currentMinor, change.currency)}</td>
+              <td>
+                {change.differenceMinor !== null
+                  ? `${change.differenceMinor > 0 ? '+' : ''}${formatMinorUnits(change.differenceMinor, change.currency)}` +
+                    (change.percentChange !== null ? ` (${change.percentChange > 0 ? '+' : ''}${change.percentChange}%)` : '')
+                  : '—'}
+              </td>
+              <td>{STATUS_LABELS[change.status]}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
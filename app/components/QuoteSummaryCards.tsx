@@ -0,0 +1,42 @@
+interface QuoteSummaryCardsProps {
+  tripType: string;
+  origin: string;
+  destination: string;
+  departureDate: string;
+  returnDate: string;
+  passengers: number;
+}
+
+/**
+ * Trip details shown above the plans; has no client state so shared quote pages can render it on the server
+ */
+export default function QuoteSummaryCards({ tripType, origin, destination, departureDate, returnDate, passengers }: QuoteSummaryCardsProps) {
+  return (
+    <div className="summary-cards">
+      <div className="summary-card">
+        <div className="summary-label">Tipo de Plan</div>
+        <div className="summary-value">{tripType}</div>
+      </div>
+      <div className="summary-card">
+        <div className="summary-label">Pasajeros</div>
+        <div className="summary-value">{passengers}</div>
+      </div>
+      <div className="summary-card">
+        <div className="summary-label">Origen</div>
+        <div className="summary-value">{origin}</div>
+      </div>
+      <div className="summary-card">
+        <div className="summary-label">Destino</div>
+        <div className="summary-value">{destination}</div>
+      </div>
+      <div className="summary-card">
+        <div className="summary-label">Inicio</div>
+        <div className="summary-value">{departureDate}</div>
+      </div>
+      <div className="summary-card">
+        <div className="summary-label">Fin</div>
+        <div className="summary-value">{returnDate}</div>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 'use client';
 
 import { useState, useRef, useEffect } from 'react';
+import { rankCatalogOptions } from '../../src/catalog-resolver';
 
 interface SearchableSelectProps {
   id: string;
@@ -28,10 +29,8 @@ export default function SearchableSelect({
 
   useEffect(() => {
     if (searchTerm) {
-      const filtered = options.filter(opt =>
-        opt.text.toLowerCase().includes(searchTerm.toLowerCase())
-      );
-      setFilteredOptions(filtered);
+      // Accent-insensitive, understands Spanish/English names and ISO codes, best match first
+      setFilteredOptions(rankCatalogOptions(options, searchTerm).map(ranked => ranked.option));
     } else {
       setFilteredOptions(options);
     }
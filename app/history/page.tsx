@@ -0,0 +1,365 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { PlanPriceChange, QuoteHistoryRecord, QuoteRecordSummary, QuoteResult } from '../../src/types';
+import { formatCoverage, formatMinorUnits } from '../../src/plan-details';
+import { daysSinceQuote } from '../../src/requote';
+import PriceChangeTable from '../components/PriceChangeTable';
+import QuoteSummaryCards from '../components/QuoteSummaryCards';
+
+const PAGE_SIZE = 20;
+
+interface HistoryFilters {
+  from: string;
+  to: string;
+  origin: string;
+  destination: string;
+  agent: string;
+  success: '' | 'true' | 'false';
+}
+
+interface HistoryPage {
+  items: QuoteRecordSummary[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+type RequoteResult = QuoteResult & {
+  shiftDays: number;
+  changes: PlanPriceChange[];
+  config?: QuoteHistoryRecord['config'];
+};
+
+const EMPTY_FILTERS: HistoryFilters = { from: '', to: '', origin: '', destination: '', agent: '', success: '' };
+
+export default function HistoryPage() {
+  const router = useRouter();
+  const [filters, setFilters] = useState<HistoryFilters>(EMPTY_FILTERS);
+  const [history, setHistory] = useState<HistoryPage | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [selected, setSelected] = useState<QuoteHistoryRecord | null>(null);
+  const [shiftDays, setShiftDays] = useState('0');
+  const [requoting, setRequoting] = useState(false);
+  const [requote, setRequote] = useState<RequoteResult | null>(null);
+
+  useEffect(() => {
+    loadHistory(0);
+  }, []);
+
+  const loadHistory = async (offset: number) => {
+    setLoading(true);
+    setError('');
+    try {
+      const params = new URLSearchParams({ limit: String(PAGE_SIZE), offset: String(offset) });
+      for (const [key, value] of Object.entries(filters)) {
+        if (value) params.set(key, value);
+      }
+      const response = await fetch(`/api/quotes?${params}`);
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || 'No se pudo cargar el historial');
+        return;
+      }
+      setHistory(data);
+    } catch (error) {
+      console.error('Error al cargar historial:', error);
+      setError('No se pudo cargar el historial');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const selectQuote = async (id: string) => {
+    setRequote(null);
+    try {
+      const response = await fetch(`/api/quotes/${encodeURIComponent(id)}`);
+      if (!response.ok) return;
+      const record: QuoteHistoryRecord = await response.json();
+      setSelected(record);
+      setShiftDays(String(daysSinceQuote(record.createdAt)));
+    } catch (error) {
+      console.error('Error al cargar cotización:', error);
+    }
+  };
+
+  const handleRequote = async () => {
+    if (!selected) return;
+    setRequoting(true);
+    setRequote(null);
+    try {
+      const response = await fetch(`/api/quotes/${encodeURIComponent(selected.id)}/requote`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ shiftDays: parseInt(shiftDays, 10) || 0 }),
+      });
+      setRequote(await response.json());
+    } catch (error) {
+      setRequote({
+        success: false,
+        error: error instanceof Error ? error.message : 'Error desconocido',
+        shiftDays: parseInt(shiftDays, 10) || 0,
+        changes: [],
+      });
+    } finally {
+      setRequoting(false);
+    }
+  };
+
+  // Open a quote in the results page, the same way a fresh quote is shown
+  const openInResults = (result: QuoteResult, config: QuoteHistoryRecord['config']) => {
+    sessionStorage.setItem('quoteResult', JSON.stringify(result));
+    sessionStorage.setItem('quoteFormData', JSON.stringify({
+      tripType: config.tripType,
+      origin: config.origin,
+      destination: config.destination,
+      departureDate: config.departureDate,
+      returnDate: config.returnDate,
+      passengers: config.passengers,
+    }));
+    router.push('/results');
+  };
+
+  // Exports use the filters as typed; only successful quotes have plans to export
+  const exportParams = (format: 'csv' | 'json') => {
+    const params = new URLSearchParams({ format });
+    for (const [key, value] of Object.entries(filters)) {
+      if (value && key !== 'success') params.set(key, value);
+    }
+    return params.toString();
+  };
+
+  const updateFilter = (field: keyof HistoryFilters, value: string) => {
+    setFilters(prev => ({ ...prev, [field]: value }));
+  };
+
+  return (
+    <div className="container">
+      <h1>🕘 Historial de Cotizaciones</h1>
+
+      <div className="card">
+        <div style={{ marginBottom: '1.5rem', display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+          <h2 style={{ margin: 0 }}>Buscar</h2>
+          <button onClick={() => router.push('/')} style={{ width: 'auto', padding: '0.75rem 1.5rem' }}>
+            Nueva Cotización
+          </button>
+        </div>
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            setSelected(null);
+            loadHistory(0);
+          }}
+        >
+          <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fill, minmax(180px, 1fr))', gap: '1rem' }}>
+            <div className="form-group">
+              <label htmlFor="from">Desde</label>
+              <input id="from" type="date" value={filters.from} onChange={(e) => updateFilter('from', e.target.value)} />
+            </div>
+            <div className="form-group">
+              <label htmlFor="to">Hasta</label>
+              <input id="to" type="date" value={filters.to} onChange={(e) => updateFilter('to', e.target.value)} />
+            </div>
+            <div className="form-group">
+              <label htmlFor="origin">Origen</label>
+              <input id="origin" type="text" value={filters.origin} onChange={(e) => updateFilter('origin', e.target.value)} />
+            </div>
+            <div className="form-group">
+              <label htmlFor="destination">Destino</label>
+              <input id="destination" type="text" value={filters.destination} onChange={(e) => updateFilter('destination', e.target.value)} />
+            </div>
+            <div className="form-group">
+              <label htmlFor="agent">Agente (ID)</label>
+              <input id="agent" type="text" value={filters.agent} onChange={(e) => updateFilter('agent', e.target.value)} />
+            </div>
+            <div className="form-group">
+              <label htmlFor="success">Estado</label>
+              <select id="success" value={filters.success} onChange={(e) => updateFilter('success', e.target.value)}>
+                <option value="">Todas</option>
+                <option value="true">Exitosas</option>
+                <option value="false">Fallidas</option>
+              </select>
+            </div>
+          </div>
+          <div style={{ display: 'flex', gap: '1rem' }}>
+            <button type="submit" disabled={loading}>
+              {loading ? 'Buscando...' : 'Buscar'}
+            </button>
+            <button type="button" onClick={() => setFilters(EMPTY_FILTERS)} style={{ width: 'auto' }}>
+              Limpiar
+            </button>
+          </div>
+        </form>
+        {error && <div className="error">{error}</div>}
+      </div>
+
+      {history && (
+        <div className="card">
+          <div style={{ marginBottom: '1.5rem', display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+            <h2 style={{ margin: 0 }}>{history.total} cotizaciones</h2>
+            <div style={{ display: 'flex', gap: '1rem' }}>
+              <a href={`/api/quotes/export?${exportParams('csv')}`}>Exportar CSV</a>
+              <a href={`/api/quotes/export?${exportParams('json')}`}>Exportar JSON</a>
+            </div>
+          </div>
+          {history.items.length === 0 ? (
+            <p>No se encontraron cotizaciones con estos filtros.</p>
+          ) : (
+            <div className="comparison-table-wrapper">
+              <table className="comparison-table">
+                <thead>
+                  <tr>
+                    <th>Fecha</th>
+                    <th>Tipo</th>
+                    <th>Ruta</th>
+                    <th>Viaje</th>
+                    <th>Pasajeros</th>
+                    <th>Planes</th>
+                    <th>Desde</th>
+                    <th>Estado</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {history.items.map((item) => (
+                    <tr
+                      key={item.id}
+                      onClick={() => selectQuote(item.id)}
+                      style={{ cursor: 'pointer', backgroundColor: selected?.id === item.id ? '#f0f0ff' : undefined }}
+                    >
+                      <td>{new Date(item.createdAt).toLocaleString('es')}</td>
+                      <td>{item.tripType}</td>
+                      <td>{item.origin} → {item.destination}</td>
+                      <td>{item.departureDate} - {item.returnDate}</td>
+                      <td>{item.passengers}</td>
+                      <td>{item.planCount}</td>
+                      <td>{formatMinorUnits(item.lowestPriceMinor, item.currency || 'USD')}</td>
+                      <td>{item.success ? '✅' : `❌ ${item.error || ''}`}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+          {history.total > history.limit && (
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginTop: '1rem', gap: '1rem' }}>
+              <button
+                onClick={() => loadHistory(Math.max(0, history.offset - history.limit))}
+                disabled={loading || history.offset === 0}
+                style={{ width: 'auto' }}
+              >
+                Anterior
+              </button>
+              <span style={{ color: '#666' }}>
+                {history.offset + 1}-{Math.min(history.offset + history.limit, history.total)} de {history.total}
+              </span>
+              <button
+                onClick={() => loadHistory(history.offset + history.limit)}
+                disabled={loading || history.offset + history.limit >= history.total}
+                style={{ width: 'auto' }}
+              >
+                Siguiente
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {selected && (
+        <div className="card">
+          <div style={{ marginBottom: '1.5rem', display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+            <h2 style={{ margin: 0 }}>Cotización del {new Date(selected.createdAt).toLocaleString('es')}</h2>
+            {selected.success && (
+              <button
+                onClick={() => openInResults({
+                  success: true,
+                  quoteData: { url: selected.quoteUrl || '', contentLength: 0, plans: selected.plans, planCount: selected.planCount },
+                }, selected.config)}
+                style={{ width: 'auto', padding: '0.75rem 1.5rem' }}
+              >
+                Ver en resultados
+              </button>
+            )}
+          </div>
+
+          <QuoteSummaryCards {...selected} />
+
+          <p style={{ marginBottom: '1rem', color: '#666', fontSize: '0.875rem' }}>
+            {new Date(selected.expiresAt) > new Date()
+              ? `El enlace para compartir y la propuesta en PDF, entregados al cotizar, son válidos hasta ${new Date(selected.expiresAt).toLocaleDateString('es')}`
+              : 'El enlace para compartir de esta cotización expiró'}
+          </p>
+
+          {selected.success ? (
+            <div className="comparison-table-wrapper">
+              <table className="comparison-table">
+                <thead>
+                  <tr>
+                    <th>Plan</th>
+                    <th>Cobertura</th>
+                    <th>Precio</th>
+                    <th>Por pasajero</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {selected.plans.map((plan) => (
+                    <tr key={plan.planId}>
+                      <th scope="row">{plan.title}</th>
+                      <td>{formatCoverage(plan.coverageAmount, plan.currency)}</td>
+                      <td>{formatMinorUnits(plan.totalPriceMinor ?? plan.priceMinor, plan.currency)}</td>
+                      <td>{formatMinorUnits(plan.pricePerPassengerMinor, plan.currency)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <div className="error">{selected.error || 'La cotización falló'}</div>
+          )}
+
+          <div style={{ marginTop: '1.5rem', display: 'flex', alignItems: 'flex-end', gap: '1rem' }}>
+            <div className="form-group" style={{ marginBottom: 0 }}>
+              <label htmlFor="shiftDays">Desplazar fechas (días)</label>
+              <input
+                id="shiftDays"
+                type="number"
+                value={shiftDays}
+                onChange={(e) => setShiftDays(e.target.value)}
+                style={{ width: '160px' }}
+              />
+            </div>
+            <button onClick={handleRequote} disabled={requoting} style={{ width: 'auto' }}>
+              {requoting ? 'Recotizando...' : 'Recotizar'}
+            </button>
+          </div>
+
+          {requote && (
+            <div style={{ marginTop: '1.5rem' }}>
+              {requote.success ? (
+                <>
+                  <div style={{ marginBottom: '1rem', display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                    <h2 style={{ margin: 0 }}>
+                      Recotización {requote.config ? `(${requote.config.departureDate} - ${requote.config.returnDate})` : ''}
+                    </h2>
+                    {requote.config && (
+                      <button
+                        onClick={() => openInResults(requote, requote.config!)}
+                        style={{ width: 'auto', padding: '0.75rem 1.5rem' }}
+                      >
+                        Ver en resultados
+                      </button>
+                    )}
+                  </div>
+                  <PriceChangeTable changes={requote.changes} />
+                </>
+              ) : (
+                <div className="error">{requote.error || 'No se pudo recotizar'}</div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -4,10 +4,12 @@ import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import { QuoteConfig, CatalogData } from '../src/types';
 import SearchableSelect from './components/SearchableSelect';
+import AgentPicker from './components/AgentPicker';
 
 export default function Home() {
   const router = useRouter();
-  const [catalog, setCatalog] = useState<CatalogData | null>(null);
+  // Agents are searched through /api/catalog/agents instead of being downloaded with the catalog
+  const [catalog, setCatalog] = useState<Omit<CatalogData, 'agents'> | null>(null);
   const [loading, setLoading] = useState(false);
   const [formData, setFormData] = useState<Partial<Omit<QuoteConfig, 'ages'> & { tripTypeValue: string; ages?: string[] }>>({
     tripType: 'Viajes Por Día',
@@ -16,7 +18,7 @@ export default function Home() {
     ages: ['30'],
     departureDate: '',
     returnDate: '',
-    agent: '2851', // Risk Management - fijo, no se puede cambiar
+    agent: '', // Filled with the server's default agent once loaded
   });
   const [dateInputs, setDateInputs] = useState<{ departureDate: string; returnDate: string }>({
     departureDate: '',
@@ -27,6 +29,7 @@ export default function Home() {
 
   useEffect(() => {
     loadCatalog();
+    loadDefaultAgent();
   }, []);
 
   useEffect(() => {
@@ -39,16 +42,9 @@ export default function Home() {
     }
   }, [catalog, formData.tripTypeValue]);
 
-  useEffect(() => {
-    if (catalog) {
-      // Siempre usar Risk Management como agente fijo
-      setFormData(prev => ({ ...prev, agent: '2851' }));
-    }
-  }, [catalog]);
-
   const loadCatalog = async () => {
     try {
-      const response = await fetch('/api/catalog');
+      const response = await fetch('/api/catalog?include=tripTypes,origins,destinations');
       if (response.ok) {
         const data = await response.json();
         setCatalog(data);
@@ -61,6 +57,18 @@ export default function Home() {
     }
   };
 
+  const loadDefaultAgent = async () => {
+    try {
+      const response = await fetch('/api/catalog/agents?default');
+      if (response.ok) {
+        const agent = await response.json();
+        setFormData(prev => ({ ...prev, agent: prev.agent || agent.value }));
+      }
+    } catch (error) {
+      console.error('Error al cargar el agente por defecto:', error);
+    }
+  };
+
   const handlePassengerChange = (count: number) => {
     const newAges = Array(count).fill('').map((_, i) => formData.ages?.[i] || '30');
     setFormData(prev => ({ ...prev, passengers: count, ages: newAges }));
@@ -118,7 +126,7 @@ export default function Home() {
         ...dataToSend,
         tripType: tripTypeValue || formData.tripType,
         ages: (ages || []).map(age => typeof age === 'string' ? parseInt(age, 10) : age),
-        agent: '2851', // Siempre usar Risk Management
+        agent: formData.agent || undefined, // The API falls back to the configured default agent
       };
       
       const response = await fetch('/api/quote', {
@@ -191,14 +199,17 @@ export default function Home() {
     );
   }
 
-  const riskManagementAgent = catalog.agents.find(a => a.value === '2851');
-
   return (
     <div className="container">
       <h1>🏥 Generador de Cotizaciones Mercantil Seguros</h1>
 
       <div className="card">
-        <h2>Configuración de Cotización</h2>
+        <div style={{ marginBottom: '1.5rem', display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+          <h2 style={{ margin: 0 }}>Configuración de Cotización</h2>
+          <button type="button" onClick={() => router.push('/history')} style={{ width: 'auto', padding: '0.75rem 1.5rem' }}>
+            Historial
+          </button>
+        </div>
         <form onSubmit={handleSubmit}>
           <div className="form-group">
             <label htmlFor="tripType">Tipo de Viaje</label>
@@ -245,23 +256,12 @@ export default function Home() {
             placeholder="Buscar destino..."
           />
 
-          <div className="form-group">
-            <label htmlFor="agent">Agente/Agencia</label>
-            <input
-              type="text"
-              id="agent"
-              value={riskManagementAgent?.text || 'Risk Management Seguros, S.a. (rm Seguros)'}
-              disabled
-              style={{
-                backgroundColor: '#f5f5f5',
-                cursor: 'not-allowed',
-                opacity: 0.7,
-              }}
-            />
-            <small style={{ display: 'block', marginTop: '0.5rem', color: '#666' }}>
-              Agente fijo: Risk Management Seguros
-            </small>
-          </div>
+          <AgentPicker
+            id="agent"
+            label="Agente/Agencia"
+            value={formData.agent || ''}
+            onChange={(value) => setFormData(prev => ({ ...prev, agent: value }))}
+          />
 
           <div className="form-group">
             <label htmlFor="departureDate">Fecha de Salida</label>
@@ -3,6 +3,7 @@
 import { useState, useEffect, useRef } from 'react';
 import { useRouter } from 'next/navigation';
 import { PurchaseFormData, PurchaseFormField, QuotePlan } from '../../src/types';
+import { formatCoverage } from '../../src/plan-details';
 
 /**
  * Clean label text by removing programmatic patterns and formatting
@@ -411,9 +412,8 @@ export default function PurchasePage() {
 
       // Submit to the form's action URL
       if (form.action) {
-        const actionUrl = form.action.startsWith('http')
-          ? form.action
-          : `https://www1.mercantilseguros.com${form.action}`;
+        // Relative to the page it was scraped from, so it follows whichever Mercantil base URL the server uses
+        const actionUrl = new URL(form.action, purchaseFormData.url).toString();
 
         // For now, we'll show the form data and action URL
         // In a real scenario, you might want to submit directly or proxy through your API
@@ -781,9 +781,9 @@ export default function PurchasePage() {
             borderRadius: '8px',
             border: '1px solid #4caf50'
           }}>
-            <h3 style={{ margin: '0 0 0.5rem 0' }}>{selectedPlan.name.split('\n')[0].trim()}</h3>
+            <h3 style={{ margin: '0 0 0.5rem 0' }}>{selectedPlan.title}</h3>
             <p style={{ margin: '0.25rem 0', color: '#666' }}>
-              <strong>Cobertura:</strong> {selectedPlan.name.split('\n')[1]?.trim() || 'N/A'}
+              <strong>Cobertura:</strong> {formatCoverage(selectedPlan.coverageAmount, selectedPlan.currency)}
             </p>
             <p style={{ margin: '0.25rem 0', color: '#666' }}>
               <strong>Precio:</strong> {selectedPlan.price}
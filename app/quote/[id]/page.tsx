@@ -0,0 +1,70 @@
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import { getQuoteHistory, isShareExpired } from '../../../src/quote-history';
+import PlanCard from '../../components/PlanCard';
+import QuoteSummaryCards from '../../components/QuoteSummaryCards';
+
+// Always read from the quote history; a link can expire between requests
+export const dynamic = 'force-dynamic';
+
+export const metadata: Metadata = {
+  title: 'Cotización de Seguro de Viaje - Mercantil Seguros',
+  robots: { index: false, follow: false },
+};
+
+/**
+ * Read-only view of a stored quote, for agents to send to their clients
+ */
+export default async function SharedQuotePage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const record = getQuoteHistory().getByShareId(id);
+  if (!record || !record.success) {
+    notFound();
+  }
+
+  if (isShareExpired(record)) {
+    return (
+      <div className="container">
+        <h1>📊 Cotización de Seguro de Viaje</h1>
+        <div className="card">
+          <div className="error">
+            <h2>Enlace Expirado</h2>
+            <p>
+              Esta cotización expiró el {new Date(record.expiresAt).toLocaleDateString('es')}.
+              Solicite a su agente una cotización actualizada.
+            </p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container">
+      <h1>📊 Cotización de Seguro de Viaje</h1>
+
+      <div className="card">
+        <div style={{ marginBottom: '1.5rem', display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+          <h2 style={{ margin: 0 }}>Planes de Seguro Disponibles</h2>
+          <a href={`/api/quote/${record.shareId}/pdf`} target="_blank" rel="noopener" style={{ color: '#667eea', fontWeight: 600 }}>
+            Descargar propuesta en PDF
+          </a>
+        </div>
+        <QuoteSummaryCards {...record} />
+
+        <div className="quotes-grid">
+          {record.plans.map((plan, index) => (
+            <PlanCard key={index} plan={plan} passengers={record.passengers} />
+          ))}
+        </div>
+
+        <div style={{ marginTop: '1.5rem', padding: '1rem', backgroundColor: '#f5f5f5', borderRadius: '8px' }}>
+          <p style={{ margin: 0, color: '#666' }}>
+            Cotizado el {new Date(record.createdAt).toLocaleDateString('es')}. Precios sujetos a cambio;
+            esta cotización es válida hasta el {new Date(record.expiresAt).toLocaleDateString('es')}.
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -3,6 +3,10 @@
 import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import { QuoteResult, QuotePlan } from '../../src/types';
+import { countTripDays, MAX_COMPARED_PLANS, MIN_COMPARED_PLANS } from '../../src/plan-comparison';
+import PlanComparison from '../components/PlanComparison';
+import PlanCard from '../components/PlanCard';
+import QuoteSummaryCards from '../components/QuoteSummaryCards';
 
 interface QuoteFormData {
   tripType: string;
@@ -18,6 +22,9 @@ export default function ResultsPage() {
   const [quoteResult, setQuoteResult] = useState<QuoteResult | null>(null);
   const [quoteFormData, setQuoteFormData] = useState<QuoteFormData | null>(null);
   const [loadingPurchase, setLoadingPurchase] = useState<number | null>(null);
+  const [comparedPlans, setComparedPlans] = useState<number[]>([]);
+  const [showComparison, setShowComparison] = useState(false);
+  const [shareCopied, setShareCopied] = useState(false);
 
   useEffect(() => {
     const stored = sessionStorage.getItem('quoteResult');
@@ -42,6 +49,30 @@ export default function ResultsPage() {
     router.push('/');
   };
 
+  const copyShareLink = async () => {
+    if (!quoteResult?.shareId) return;
+    const link = `${window.location.origin}/quote/${quoteResult.shareId}`;
+    try {
+      await navigator.clipboard.writeText(link);
+      setShareCopied(true);
+      setTimeout(() => setShareCopied(false), 2000);
+    } catch {
+      window.prompt('Copie el enlace para compartir:', link);
+    }
+  };
+
+  const toggleCompared = (planIndex: number) => {
+    setComparedPlans(prev => {
+      if (prev.includes(planIndex)) {
+        return prev.filter(i => i !== planIndex);
+      }
+      if (prev.length >= MAX_COMPARED_PLANS) {
+        return prev;
+      }
+      return [...prev, planIndex].sort((a, b) => a - b);
+    });
+  };
+
   const handleComprar = async (plan: QuotePlan, planIndex: number) => {
     setLoadingPurchase(planIndex);
     
@@ -109,75 +140,99 @@ export default function ResultsPage() {
               <>
                 <div style={{ marginBottom: '1.5rem', display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
                   <h2>Planes de Seguro Disponibles</h2>
-                  <button onClick={handleNewQuote} style={{ width: 'auto', padding: '0.75rem 1.5rem' }}>
-                    Nueva Cotización
-                  </button>
+                  <div style={{ display: 'flex', gap: '0.5rem' }}>
+                    {quoteResult.shareId && (
+                      <button
+                        onClick={copyShareLink}
+                        title={quoteResult.shareExpiresAt ? `Válido hasta ${new Date(quoteResult.shareExpiresAt).toLocaleDateString('es')}` : undefined}
+                        style={{ width: 'auto', padding: '0.75rem 1.5rem' }}
+                      >
+                        {shareCopied ? '¡Enlace copiado!' : 'Compartir'}
+                      </button>
+                    )}
+                    {quoteResult.shareId && (
+                      <button
+                        onClick={() => window.open(`/api/quote/${quoteResult.shareId}/pdf`, '_blank')}
+                        style={{ width: 'auto', padding: '0.75rem 1.5rem' }}
+                      >
+                        PDF
+                      </button>
+                    )}
+                    <button onClick={() => router.push('/history')} style={{ width: 'auto', padding: '0.75rem 1.5rem' }}>
+                      Historial
+                    </button>
+                    <button onClick={handleNewQuote} style={{ width: 'auto', padding: '0.75rem 1.5rem' }}>
+                      Nueva Cotización
+                    </button>
+                  </div>
                 </div>
                 
                 {/* Summary Cards */}
-                {quoteFormData && (
-                  <div className="summary-cards">
-                    <div className="summary-card">
-                      <div className="summary-label">Tipo de Plan</div>
-                      <div className="summary-value">{quoteFormData.tripType}</div>
-                    </div>
-                    <div className="summary-card">
-                      <div className="summary-label">Pasajeros</div>
-                      <div className="summary-value">{quoteFormData.passengers}</div>
-                    </div>
-                    <div className="summary-card">
-                      <div className="summary-label">Origen</div>
-                      <div className="summary-value">{quoteFormData.origin}</div>
-                    </div>
-                    <div className="summary-card">
-                      <div className="summary-label">Destino</div>
-                      <div className="summary-value">{quoteFormData.destination}</div>
-                    </div>
-                    <div className="summary-card">
-                      <div className="summary-label">Inicio</div>
-                      <div className="summary-value">{quoteFormData.departureDate}</div>
-                    </div>
-                    <div className="summary-card">
-                      <div className="summary-label">Fin</div>
-                      <div className="summary-value">{quoteFormData.returnDate}</div>
-                    </div>
-                  </div>
-                )}
+                {quoteFormData && <QuoteSummaryCards {...quoteFormData} />}
                 
-                <div className="quotes-grid">
-                  {quoteResult.quoteData.plans.map((plan: QuotePlan, index: number) => (
-                    <div key={index} className="quote-card">
-                      <h3>{plan.name.split('\n')[0].trim()}</h3>
-                      <div className="coverage">{plan.name.split('\n')[1]?.trim() || ''}</div>
-                      <div className="price">{plan.price}</div>
-                      <div style={{ fontSize: '0.875rem', opacity: 0.9, marginTop: '0.5rem' }}>
-                        ID del Plan: {plan.planId}
-                      </div>
-                      <button
-                        onClick={() => handleComprar(plan, index)}
-                        disabled={loadingPurchase === index}
-                        style={{
-                          marginTop: '1rem',
-                          width: '100%',
-                          padding: '0.75rem',
-                          backgroundColor: loadingPurchase === index ? '#ccc' : '#28a745',
-                          color: 'white',
-                          border: 'none',
-                          borderRadius: '4px',
-                          cursor: loadingPurchase === index ? 'not-allowed' : 'pointer',
-                          fontSize: '1rem',
-                          fontWeight: 'bold',
-                        }}
-                      >
-                        {loadingPurchase === index ? 'Cargando...' : 'COMPRAR'}
-                      </button>
-                    </div>
-                  ))}
+                <div style={{ display: 'flex', justifyContent: 'flex-end', alignItems: 'center', gap: '1rem' }}>
+                  <span style={{ color: '#666', fontSize: '0.875rem' }}>
+                    Seleccione de {MIN_COMPARED_PLANS} a {MAX_COMPARED_PLANS} planes para comparar
+                  </span>
+                  <button
+                    onClick={() => setShowComparison(true)}
+                    disabled={comparedPlans.length < MIN_COMPARED_PLANS}
+                    style={{ width: 'auto', padding: '0.75rem 1.5rem' }}
+                  >
+                    Comparar planes ({comparedPlans.length})
+                  </button>
                 </div>
+
+                {showComparison && comparedPlans.length >= MIN_COMPARED_PLANS ? (
+                  <PlanComparison
+                    plans={comparedPlans.map(i => quoteResult.quoteData!.plans![i])}
+                    tripDays={quoteFormData ? countTripDays(quoteFormData.departureDate, quoteFormData.returnDate) : null}
+                    onClose={() => setShowComparison(false)}
+                  />
+                ) : (
+                  <div className="quotes-grid">
+                    {quoteResult.quoteData.plans.map((plan: QuotePlan, index: number) => (
+                      <PlanCard key={index} plan={plan} passengers={quoteFormData?.passengers || 1}>
+                        <button
+                          onClick={() => handleComprar(plan, index)}
+                          disabled={loadingPurchase === index}
+                          style={{
+                            marginTop: '1rem',
+                            width: '100%',
+                            padding: '0.75rem',
+                            backgroundColor: loadingPurchase === index ? '#ccc' : '#28a745',
+                            color: 'white',
+                            border: 'none',
+                            borderRadius: '4px',
+                            cursor: loadingPurchase === index ? 'not-allowed' : 'pointer',
+                            fontSize: '1rem',
+                            fontWeight: 'bold',
+                          }}
+                        >
+                          {loadingPurchase === index ? 'Cargando...' : 'COMPRAR'}
+                        </button>
+                        <label className="compare-toggle">
+                          <input
+                            type="checkbox"
+                            checked={comparedPlans.includes(index)}
+                            disabled={!comparedPlans.includes(index) && comparedPlans.length >= MAX_COMPARED_PLANS}
+                            onChange={() => toggleCompared(index)}
+                          />
+                          Comparar
+                        </label>
+                      </PlanCard>
+                    ))}
+                  </div>
+                )}
                 <div style={{ marginTop: '1.5rem', padding: '1rem', backgroundColor: '#f5f5f5', borderRadius: '8px' }}>
                   <p style={{ margin: 0, color: '#666' }}>
                     <strong>Total de Planes Encontrados:</strong> {quoteResult.quoteData.planCount || quoteResult.quoteData.plans.length}
                   </p>
+                  {quoteResult.strategy && quoteResult.durationMs !== undefined && (
+                    <p style={{ margin: '0.5rem 0 0 0', color: '#666', fontSize: '0.875rem' }}>
+                      Generada vía {quoteResult.strategy === 'http' ? 'API directa' : 'navegador'} en {(quoteResult.durationMs / 1000).toFixed(1)}s
+                    </p>
+                  )}
                 </div>
               </>
             ) : (
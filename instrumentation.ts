@@ -0,0 +1,10 @@
+/**
+ * Runs once when the Next.js server starts: warm the HTTP session pool there,
+ * so one-shot processes such as the CLI only open the sessions they use.
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { getSessionPool } = await import('./src/session-pool');
+    getSessionPool().warm().catch(() => {});
+  }
+}
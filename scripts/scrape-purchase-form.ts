@@ -1,5 +1,6 @@
 import { MercantilSegurosBot } from '../src/index';
 import { QuoteConfig } from '../src/types';
+import { getAppConfig, purchasePageUrl } from '../src/config';
 import * as path from 'path';
 import * as fs from 'fs';
 
@@ -22,17 +23,17 @@ async function scrapePurchaseForm(planId: string = 'M-30') {
     
     // Use the provided quote UUID and navigate directly to the purchase form
     const quoteUuid = 'b91a2eb0822af593be054528d21ca219';
-    const purchaseFormUrl = `https://www1.mercantilseguros.com/as/viajesint/MRP022052/quotation/${quoteUuid}/${planId}/buy/step-one`;
+    const purchaseFormUrl = purchasePageUrl(quoteUuid, planId);
     
     console.log(`🌐 Navegando directamente al formulario de compra...`);
     console.log(`   URL: ${purchaseFormUrl}`);
     console.log(`   Plan ID: ${planId}`);
     
-    await page.goto(purchaseFormUrl, { waitUntil: 'load', timeout: 60000 });
+    await page.goto(purchaseFormUrl, { waitUntil: 'load', timeout: getAppConfig().timeouts.navigationMs });
     await page.waitForTimeout(3000); // Wait for page to fully load
     
     // Take a screenshot
-    const screenshotDir = path.join(process.cwd(), 'screenshots');
+    const screenshotDir = getAppConfig().screenshotsDir;
     if (!fs.existsSync(screenshotDir)) {
       fs.mkdirSync(screenshotDir, { recursive: true });
     }
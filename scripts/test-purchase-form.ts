@@ -1,4 +1,5 @@
 import { MercantilSegurosBot } from '../src/index';
+import { getBrowserManager } from '../src/browser-manager';
 import { QuoteConfig } from '../src/types';
 
 /**
@@ -72,12 +73,14 @@ async function testPurchaseForm() {
     
     // Close browser
     await bot.close();
+    await getBrowserManager().shutdown();
     
     console.log('\n✅ Test completed successfully!');
     
   } catch (error) {
     console.error('\n❌ Test failed:', error);
     await bot.close().catch(() => {});
+    await getBrowserManager().shutdown();
     process.exit(1);
   }
 }
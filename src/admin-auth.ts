@@ -0,0 +1,13 @@
+import { getAppConfig } from './config';
+
+/**
+ * Admin endpoints require `Authorization: Bearer <ADMIN_API_TOKEN>`. Without the
+ * variable they are closed, unless adminApiOpen (ADMIN_API_OPEN) opts into open access.
+ */
+export function isAdminRequest(request: Request): boolean {
+  const token = process.env.ADMIN_API_TOKEN;
+  if (!token) {
+    return getAppConfig().adminApiOpen;
+  }
+  return request.headers.get('authorization') === `Bearer ${token}`;
+}
@@ -0,0 +1,120 @@
+import { AgentEntry, AgentSearchResult, CatalogOption } from './types';
+import { normalizeText } from './catalog-resolver';
+
+/**
+ * Searchable directory over the catalog's agents.
+ * Mercantil lists people as "Last Names, First Names (MRP000000)" and agencies
+ * by their company name, usually without a producer code.
+ */
+
+export const DEFAULT_AGENT_PAGE_SIZE = 20;
+export const MAX_AGENT_PAGE_SIZE = 100;
+
+export interface AgentSearchOptions {
+  query?: string; // Name fragments, an MRP code or a numeric ID
+  page?: number;
+  pageSize?: number;
+}
+
+interface IndexedAgent {
+  agent: AgentEntry;
+  words: string[]; // Normalized words of the name
+}
+
+const AGENCY_PATTERN = /\b(s\.?\s?a\.?|inc\.?|corp\.?|corporaci[oó]n|group|grupo|seguros|insurance|asesores|asesoria|corredores|consult\w*|advisors|asociados)(\s|,|\.|$)/i;
+
+const indexCache = new WeakMap<CatalogOption[], IndexedAgent[]>();
+
+export function parseAgent(option: CatalogOption): AgentEntry {
+  const codeMatch = option.text.match(/\((MRP\d+)\)\s*$/i);
+  const name = option.text.replace(/\s*\(MRP\d+\)\s*$/i, '').trim();
+  const isAgency = !codeMatch || AGENCY_PATTERN.test(name);
+
+  let lastName: string | null = null;
+  let firstName: string | null = null;
+  const parts = name.split(',');
+  if (!isAgency && parts.length === 2) {
+    lastName = parts[0].trim() || null;
+    firstName = parts[1].trim() || null;
+  }
+
+  return {
+    id: parseInt(option.value, 10),
+    value: option.value,
+    text: option.text,
+    name,
+    lastName,
+    firstName,
+    mrpCode: codeMatch ? codeMatch[1].toUpperCase() : null,
+    isAgency,
+  };
+}
+
+/**
+ * Search by name fragments ("abadi luis", accent-insensitive), MRP code ("MRP006119",
+ * "6119") or numeric ID ("544"). Exact code/ID hits come first, then alphabetical order.
+ */
+export function searchAgents(agents: CatalogOption[], options: AgentSearchOptions = {}): AgentSearchResult {
+  const pageSize = clamp(Math.floor(options.pageSize || DEFAULT_AGENT_PAGE_SIZE), 1, MAX_AGENT_PAGE_SIZE);
+  const query = (options.query || '').trim();
+  const index = getIndex(agents);
+
+  let matches: IndexedAgent[];
+  if (!query) {
+    matches = index;
+  } else if (/^(mrp)?\s*\d+$/i.test(query)) {
+    const digits = query.replace(/\D/g, '');
+    const code = `MRP${digits}`;
+    const exact = index.filter((entry) =>
+      entry.agent.value === digits ||
+      entry.agent.mrpCode === code ||
+      (entry.agent.mrpCode !== null && parseInt(entry.agent.mrpCode.slice(3), 10) === parseInt(digits, 10))
+    );
+    const partial = index.filter((entry) =>
+      !exact.includes(entry) && entry.agent.mrpCode !== null && entry.agent.mrpCode.startsWith(code)
+    );
+    matches = [...exact, ...partial];
+  } else {
+    const tokens = normalizeText(query).split(' ').filter(Boolean);
+    matches = index.filter((entry) =>
+      tokens.every((token) => entry.words.some((word) => word.startsWith(token)))
+    );
+  }
+
+  const total = matches.length;
+  const totalPages = Math.max(1, Math.ceil(total / pageSize));
+  const page = clamp(Math.floor(options.page || 1), 1, totalPages);
+
+  return {
+    items: matches.slice((page - 1) * pageSize, page * pageSize).map((entry) => entry.agent),
+    total,
+    page,
+    pageSize,
+    totalPages,
+  };
+}
+
+export function findAgent(agents: CatalogOption[], id: string): AgentEntry | null {
+  return getIndex(agents).find((entry) => entry.agent.value === id)?.agent || null;
+}
+
+/**
+ * Parsed and sorted once per catalog; the catalog service hands out the same array until the file changes
+ */
+function getIndex(agents: CatalogOption[]): IndexedAgent[] {
+  let index = indexCache.get(agents);
+  if (!index) {
+    index = agents
+      .map((option) => {
+        const agent = parseAgent(option);
+        return { agent, words: normalizeText(agent.name).split(' ').filter(Boolean) };
+      })
+      .sort((a, b) => a.agent.name.localeCompare(b.agent.name, 'es'));
+    indexCache.set(agents, index);
+  }
+  return index;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(Number.isFinite(value) ? value : min, min), max);
+}
@@ -0,0 +1,168 @@
+import { load, CheerioAPI } from 'cheerio';
+import { PlanBenefit, QuotePlan } from './types';
+import { QUOTE_EXTRACTION_SCHEMA, QuoteExtractionSchema } from './extraction-schema';
+import { parseMoney } from './plan-details';
+import { htmlToText } from './html-text';
+import { normalizeText } from './catalog-resolver';
+
+/**
+ * Extract the benefit/coverage information of each plan from the quote result HTML.
+ *
+ * Mercantil shows benefits in two ways depending on the product:
+ * - a comparison table with one column per plan (D-30, D-50, ...)
+ * - a list inside each plan card ("Gastos médicos: USD 50.000")
+ * Both are normalized into PlanBenefit rows keyed by plan ID.
+ */
+export function extractPlanBenefits(
+  document: string | CheerioAPI,
+  plans: QuotePlan[],
+  schema: QuoteExtractionSchema = QUOTE_EXTRACTION_SCHEMA
+): Map<string, PlanBenefit[]> {
+  const $ = typeof document === 'string' ? load(document) : document;
+  const benefitsByPlan = new Map<string, PlanBenefit[]>();
+  for (const plan of plans) {
+    benefitsByPlan.set(plan.planId, []);
+  }
+
+  extractFromTables($, plans, benefitsByPlan, schema);
+
+  // Only fall back to card lists for plans the tables did not cover
+  for (const plan of plans) {
+    if (benefitsByPlan.get(plan.planId)!.length === 0) {
+      benefitsByPlan.set(plan.planId, extractFromCard($, plan.planId, schema));
+    }
+  }
+
+  return benefitsByPlan;
+}
+
+/**
+ * Return a copy of the plans with their benefits filled in
+ */
+export function attachBenefits(
+  document: string | CheerioAPI,
+  plans: QuotePlan[],
+  schema: QuoteExtractionSchema = QUOTE_EXTRACTION_SCHEMA
+): QuotePlan[] {
+  const benefitsByPlan = extractPlanBenefits(document, plans, schema);
+  return plans.map((plan) => ({ ...plan, benefits: benefitsByPlan.get(plan.planId) || [] }));
+}
+
+/**
+ * Normalize a benefit cell such as "USD 50.000 (Deducible USD 100)", "10 días" or "Incluido"
+ */
+export function parseBenefitValue(name: string, valueText: string): PlanBenefit {
+  const text = valueText.replace(/\s+/g, ' ').trim();
+  const [limitPart, deductiblePart] = text.split(/deducible:?/i);
+
+  const limitMoney = parseMoney(limitPart);
+  const deductibleMoney = deductiblePart ? parseMoney(deductiblePart) : null;
+
+  let unit: string | null = limitMoney?.currency || null;
+  if (!unit && limitMoney) {
+    const unitMatch = limitPart.match(/%|d[ií]as?|horas?|eventos?|meses|a[nñ]os?/i);
+    unit = unitMatch ? unitMatch[0].toLowerCase() : null;
+  }
+
+  return {
+    name: name.replace(/:$/, '').trim(),
+    limit: limitMoney ? limitMoney.amount : null,
+    deductible: deductibleMoney ? deductibleMoney.amount : null,
+    unit,
+    text,
+  };
+}
+
+function extractFromTables(
+  $: CheerioAPI,
+  plans: QuotePlan[],
+  benefitsByPlan: Map<string, PlanBenefit[]>,
+  schema: QuoteExtractionSchema
+): void {
+  $(schema.benefits.table).each((_, table) => {
+    const rows = $(table)
+      .find(schema.benefits.row)
+      .toArray()
+      .map((row) => $(row).find(schema.benefits.cell).toArray().map((cell) => cellText($, cell)))
+      .filter((cells) => cells.length > 0);
+    if (rows.length < 2) return;
+
+    const columnPlans = mapColumnsToPlans(rows[0].slice(1), plans);
+    if (columnPlans.every((planId) => planId === null)) return;
+
+    for (const row of rows.slice(1)) {
+      const name = row[0];
+      if (!name) continue;
+
+      row.slice(1).forEach((cell, index) => {
+        const planId = columnPlans[index];
+        if (!planId || !cell) return;
+        benefitsByPlan.get(planId)!.push(parseBenefitValue(name, cell));
+      });
+    }
+  });
+}
+
+/**
+ * Work out which plan each table column belongs to, by plan ID or title.
+ * When no header names a plan but the column count matches, columns follow plan order.
+ */
+function mapColumnsToPlans(headers: string[], plans: QuotePlan[]): Array<string | null> {
+  const byHeader = headers.map((header) => {
+    const plan = plans.find((p) => headerNamesPlan(header, p.planId) || (p.title && headerNamesPlan(header, p.title)));
+    return plan ? plan.planId : null;
+  });
+
+  if (byHeader.some((planId) => planId !== null)) {
+    return byHeader;
+  }
+  if (headers.length === plans.length) {
+    return plans.map((plan) => plan.planId);
+  }
+  return headers.map(() => null);
+}
+
+/**
+ * True when the header is the label or contains it as whole words, so "D-300" does not name plan "D-30"
+ */
+function headerNamesPlan(header: string, label: string): boolean {
+  const headerTokens = planLabelTokens(header);
+  const labelTokens = planLabelTokens(label);
+  if (labelTokens.length === 0) return false;
+  if (headerTokens.join('') === labelTokens.join('')) return true; // "D30" vs "D-30"
+
+  for (let start = 0; start + labelTokens.length <= headerTokens.length; start++) {
+    if (labelTokens.every((token, offset) => headerTokens[start + offset] === token)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+function planLabelTokens(text: string): string[] {
+  return normalizeText(text).split(' ').filter(Boolean);
+}
+
+function extractFromCard($: CheerioAPI, planId: string, schema: QuoteExtractionSchema): PlanBenefit[] {
+  // Compared as an attribute, not spliced into a selector: scraped ids may hold quotes or backslashes
+  const planForm = $('[id]').filter((_, element) => $(element).attr('id') === planId).first();
+  if (planForm.length === 0) return [];
+
+  const cardSelector = schema.planCard.candidates.map((candidate) => candidate.selector).join(', ');
+  const card = planForm.closest(cardSelector);
+  const scope = card.length > 0 ? card : planForm.parent();
+
+  return scope
+    .find(schema.benefits.cardItem)
+    .toArray()
+    .map((item) => cellText($, item))
+    .filter((text) => text.indexOf(':') > 0)
+    .map((text) => {
+      const separator = text.indexOf(':');
+      return parseBenefitValue(text.substring(0, separator), text.substring(separator + 1));
+    });
+}
+
+function cellText($: CheerioAPI, element: Parameters<CheerioAPI>[0]): string {
+  return htmlToText($(element).html() || '').replace(/\n/g, ' ');
+}
@@ -0,0 +1,201 @@
+import { chromium, Browser, BrowserContext, Page } from 'playwright';
+import { getAppConfig } from './config';
+import { log } from './logger';
+
+export interface BrowserManagerOptions {
+  maxConcurrency?: number; // Maximum number of pages open at the same time
+  acquireTimeoutMs?: number; // How long a caller waits for a free slot
+  headless?: boolean;
+}
+
+export interface PageLease {
+  context: BrowserContext;
+  page: Page;
+  release: () => Promise<void>;
+}
+
+export interface BrowserManagerStats {
+  connected: boolean;
+  active: number;
+  waiting: number;
+  maxConcurrency: number;
+  launches: number;
+}
+
+const LAUNCH_ARGS = [
+  '--disable-blink-features=AutomationControlled',
+  '--disable-dev-shm-usage',
+  '--disable-extensions',
+  '--disable-gpu',
+  '--disable-images', // Disable images to speed up loading
+  '--disable-setuid-sandbox',
+  '--no-sandbox',
+  '--disable-web-security',
+  '--disable-features=IsolateOrigins,site-per-process',
+];
+
+/**
+ * Process-wide Chromium instance shared by every bot.
+ * Chromium is launched once; each caller gets its own BrowserContext so
+ * cookies never leak between quotes, and the number of open pages is capped.
+ */
+export class BrowserManager {
+  private browser: Browser | null = null;
+  private launching: Promise<Browser> | null = null;
+  private active = 0;
+  private waiters: Array<() => void> = [];
+  private launches = 0;
+  private maxConcurrency: number;
+  private acquireTimeoutMs: number;
+  private headless: boolean;
+
+  constructor(options: BrowserManagerOptions = {}) {
+    this.maxConcurrency = options.maxConcurrency || 2;
+    this.acquireTimeoutMs = options.acquireTimeoutMs || 60000;
+    this.headless = options.headless ?? true;
+  }
+
+  async acquirePage(): Promise<PageLease> {
+    await this.acquireSlot();
+
+    let context: BrowserContext | null = null;
+    try {
+      const browser = await this.getBrowser();
+      context = await browser.newContext({ viewport: { width: 1280, height: 720 } });
+
+      // Block unnecessary resources to speed up page load
+      await context.route('**/*', (route) => {
+        const resourceType = route.request().resourceType();
+        // Block images, fonts, and media to speed up loading
+        if (['image', 'font', 'media'].includes(resourceType)) {
+          route.abort();
+        } else {
+          route.continue();
+        }
+      });
+
+      const page = await context.newPage();
+      const leasedContext = context;
+      let released = false;
+
+      return {
+        context: leasedContext,
+        page,
+        release: async () => {
+          if (released) return;
+          released = true;
+          await leasedContext.close().catch(() => {});
+          this.releaseSlot();
+        },
+      };
+    } catch (error) {
+      if (context) {
+        await context.close().catch(() => {});
+      }
+      this.releaseSlot();
+      throw error;
+    }
+  }
+
+  getStats(): BrowserManagerStats {
+    return {
+      connected: !!this.browser?.isConnected(),
+      active: this.active,
+      waiting: this.waiters.length,
+      maxConcurrency: this.maxConcurrency,
+      launches: this.launches,
+    };
+  }
+
+  /**
+   * Close the shared browser. Used by CLI entry points so the process can exit.
+   */
+  async shutdown(): Promise<void> {
+    const browser = this.browser;
+    this.browser = null;
+    if (browser) {
+      await browser.close().catch(() => {});
+      log('🔒 Browser closed');
+    }
+  }
+
+  private async getBrowser(): Promise<Browser> {
+    if (this.browser?.isConnected()) {
+      return this.browser;
+    }
+
+    // Several callers may arrive while Chromium is starting; launch it only once
+    if (!this.launching) {
+      this.launching = this.launch().finally(() => {
+        this.launching = null;
+      });
+    }
+    return this.launching;
+  }
+
+  private async launch(): Promise<Browser> {
+    log(this.launches === 0 ? '🚀 Initializing browser...' : '🔄 Restarting browser after disconnect...');
+    const browser = await chromium.launch({
+      headless: this.headless,
+      args: LAUNCH_ARGS,
+    });
+
+    // Drop the reference on crash so the next caller relaunches Chromium
+    browser.on('disconnected', () => {
+      if (this.browser === browser) {
+        console.warn('⚠️ Browser disconnected');
+        this.browser = null;
+      }
+    });
+
+    this.browser = browser;
+    this.launches++;
+    log('✅ Browser initialized');
+    return browser;
+  }
+
+  private acquireSlot(): Promise<void> {
+    if (this.active < this.maxConcurrency) {
+      this.active++;
+      return Promise.resolve();
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      const grant = () => {
+        clearTimeout(timer);
+        this.active++;
+        resolve();
+      };
+      const timer = setTimeout(() => {
+        this.waiters = this.waiters.filter((w) => w !== grant);
+        reject(new Error(`No hay navegador disponible después de ${this.acquireTimeoutMs}ms`));
+      }, this.acquireTimeoutMs);
+      this.waiters.push(grant);
+    });
+  }
+
+  private releaseSlot(): void {
+    this.active--;
+    const next = this.waiters.shift();
+    if (next) {
+      next();
+    }
+  }
+}
+
+let sharedManager: BrowserManager | null = null;
+
+/**
+ * Browser manager shared by the whole process, sized by the concurrency settings
+ */
+export function getBrowserManager(): BrowserManager {
+  if (!sharedManager) {
+    const { concurrency, headless } = getAppConfig();
+    sharedManager = new BrowserManager({
+      maxConcurrency: concurrency.browserPages,
+      acquireTimeoutMs: concurrency.browserAcquireTimeoutMs,
+      headless,
+    });
+  }
+  return sharedManager;
+}
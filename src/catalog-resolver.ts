@@ -0,0 +1,217 @@
+import { CatalogData, CatalogOption } from './types';
+import { CATALOG_ALIASES, COUNTRIES, CountryEntry } from './countries';
+
+/**
+ * Resolve free-text input ("Panama", "República Dominicana", "DO", "Europe")
+ * to a catalog option. Matching ignores accents and case, understands Spanish
+ * and English country names, ISO-3166 codes and aliases, and reports an
+ * ambiguous result with the best candidates instead of picking the first hit.
+ * No Node imports: the web form uses the same ranking for its pickers.
+ */
+
+export interface RankedOption {
+  option: CatalogOption;
+  score: number; // 0-1, higher is better
+  matchedOn: string; // Name, alias or code that produced the score
+}
+
+export type CatalogMatch =
+  | { status: 'matched'; query: string; option: CatalogOption; score: number; matchedOn: string }
+  | { status: 'ambiguous'; query: string; candidates: RankedOption[] }
+  | { status: 'not_found'; query: string; candidates: RankedOption[] };
+
+// Below this score a candidate is only a search suggestion, never a resolution
+export const MIN_MATCH_SCORE = 0.7;
+// Candidates this close to the best one make the result ambiguous
+const AMBIGUITY_MARGIN = 0.1;
+const MAX_CANDIDATES = 5;
+const SCORE_EPSILON = 1e-9;
+
+interface OptionKey {
+  text: string; // As shown to the user
+  normalized: string;
+  weight: number; // 1 for the catalog's own text, less for aliases from the tables
+  exactOnly: boolean; // Codes must match exactly, never by prefix or typo
+}
+
+const optionKeysCache = new WeakMap<CatalogOption, OptionKey[]>();
+let countriesByName: Map<string, CountryEntry> | null = null;
+
+/**
+ * Lowercase, strip accents and punctuation: "Côte d'Ivoire" -> "cote d ivoire"
+ */
+export function normalizeText(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Score every option against the query, best first.
+ * Includes weak substring hits so pickers can use it for search-as-you-type.
+ */
+export function rankCatalogOptions(options: CatalogOption[], query: string): RankedOption[] {
+  const normalizedQuery = normalizeText(typeof query === 'string' ? query : String(query ?? ''));
+  if (!normalizedQuery) return [];
+
+  const ranked: RankedOption[] = [];
+  for (const option of options) {
+    let best: RankedOption | null = null;
+    for (const key of getOptionKeys(option)) {
+      const score = scoreKey(normalizedQuery, key);
+      if (score > 0 && (!best || score > best.score)) {
+        best = { option, score, matchedOn: key.text };
+      }
+    }
+    if (best) ranked.push(best);
+  }
+
+  return ranked.sort((a, b) => b.score - a.score || a.option.text.localeCompare(b.option.text));
+}
+
+export function resolveCatalogOption(options: CatalogOption[], query: string): CatalogMatch {
+  const ranked = rankCatalogOptions(options, query).filter((candidate) => candidate.score >= MIN_MATCH_SCORE);
+  if (ranked.length === 0) {
+    // One or two characters hit too many entries to be useful suggestions
+    const suggestions = normalizeText(String(query ?? '')).length >= 3 ? rankCatalogOptions(options, query) : [];
+    return { status: 'not_found', query, candidates: suggestions.slice(0, MAX_CANDIDATES) };
+  }
+
+  const [best] = ranked;
+  // An exact name is only contested by another exact name (e.g. a duplicated catalog entry);
+  // partial and fuzzy matches are contested by anything close behind them
+  const margin = best.score >= 1 ? 0 : AMBIGUITY_MARGIN;
+  const contenders = ranked.filter((candidate) =>
+    candidate.option.value !== best.option.value && candidate.score >= best.score - margin - SCORE_EPSILON
+  );
+  if (contenders.length > 0) {
+    return { status: 'ambiguous', query, candidates: ranked.slice(0, MAX_CANDIDATES) };
+  }
+
+  return { status: 'matched', query, option: best.option, score: best.score, matchedOn: best.matchedOn };
+}
+
+/**
+ * Catalog-aware resolution for each QuoteConfig field
+ */
+export class CatalogResolver {
+  constructor(private catalog: CatalogData) {}
+
+  resolveTripType(query: string): CatalogMatch {
+    return resolveCatalogOption(this.catalog.tripTypes, query);
+  }
+
+  resolveOrigin(query: string): CatalogMatch {
+    return resolveCatalogOption(this.catalog.origins, query);
+  }
+
+  /**
+   * Destinations depend on the trip type; an unresolvable trip type finds nothing
+   */
+  resolveDestination(query: string, tripType: string): CatalogMatch {
+    const tripTypeMatch = this.resolveTripType(tripType);
+    const destinations = tripTypeMatch.status === 'matched'
+      ? this.catalog.destinations[tripTypeMatch.option.value] || []
+      : [];
+    return resolveCatalogOption(destinations, query);
+  }
+
+  resolveAgent(query: string): CatalogMatch {
+    return resolveCatalogOption(this.catalog.agents, query);
+  }
+}
+
+function scoreKey(query: string, key: OptionKey): number {
+  if (query === key.normalized) return key.weight;
+  if (key.exactOnly) return 0;
+
+  // Prefixes need a few characters, otherwise "ar" would match half the catalog
+  if (query.length >= 3) {
+    if (key.normalized.startsWith(query)) return 0.8 * key.weight;
+    if (key.normalized.split(' ').some((word) => word.startsWith(query))) return 0.7 * key.weight;
+  }
+
+  // Typos: "Venezula", "Argentian"
+  if (query.length >= 4) {
+    const similarity = 1 - levenshtein(query, key.normalized) / Math.max(query.length, key.normalized.length);
+    if (similarity >= 0.8) return 0.85 * similarity * key.weight;
+  }
+
+  // Weak substring hit, only good enough for search suggestions
+  return key.normalized.includes(query) ? 0.5 * key.weight : 0;
+}
+
+function getOptionKeys(option: CatalogOption): OptionKey[] {
+  const cached = optionKeysCache.get(option);
+  if (cached) return cached;
+
+  const keys: OptionKey[] = [];
+  const addKey = (text: string, weight: number, exactOnly = false) => {
+    const normalized = normalizeText(text);
+    if (normalized && !keys.some((key) => key.normalized === normalized && key.exactOnly === exactOnly)) {
+      keys.push({ text, normalized, weight, exactOnly });
+    }
+  };
+
+  // The catalog's own text, and its parenthesized variant: "Great Britain (United Kingdom)"
+  addKey(option.text, 1);
+  const ownNames = [option.text];
+  const parenthesized = option.text.match(/^(.*?)\s*\((.+)\)\s*$/);
+  if (parenthesized) {
+    for (const part of parenthesized.slice(1)) {
+      if (part.length >= 3) {
+        addKey(part, 1);
+        ownNames.push(part);
+      }
+    }
+  }
+  if (option.value !== option.text) {
+    addKey(option.value, 1, true);
+  }
+
+  const country = ownNames.map((name) => getCountriesByName().get(normalizeText(name))).find(Boolean);
+  if (country) {
+    const [alpha2, alpha3, ...names] = country;
+    names.forEach((name) => addKey(name, 0.95));
+    addKey(alpha2, 0.95, true);
+    addKey(alpha3, 0.95, true);
+  }
+
+  for (const alias of CATALOG_ALIASES[option.text] || []) {
+    addKey(alias, 0.95);
+  }
+
+  optionKeysCache.set(option, keys);
+  return keys;
+}
+
+function getCountriesByName(): Map<string, CountryEntry> {
+  if (!countriesByName) {
+    countriesByName = new Map();
+    for (const entry of COUNTRIES) {
+      for (const name of entry.slice(2)) {
+        countriesByName.set(normalizeText(name), entry);
+      }
+    }
+  }
+  return countriesByName;
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
@@ -0,0 +1,105 @@
+import { load, CheerioAPI } from 'cheerio';
+import { MercantilSegurosAPIClient } from './api-client';
+import { SELECTORS } from './config';
+import { storeScrapedCatalog } from './catalog-store';
+import { CatalogData, CatalogOption } from './types';
+import { log } from './logger';
+
+/**
+ * Catalog scraping over plain HTTP.
+ *
+ * Every <option> is already in the initial HTML of MRP022052; the page script only
+ * shows or hides destinations according to their data-filter when the trip type
+ * changes. Reading that mapping directly gives the same CatalogData as
+ * MercantilSegurosBot.scrapeCatalog() without a browser.
+ */
+
+const PLACEHOLDER_TEXT = 'Seleccione';
+
+export function parseCatalogHtml(html: string): CatalogData {
+  const $ = load(html);
+
+  const tripTypes = readOptions($, SELECTORS.tripType);
+  const origins = readOptions($, SELECTORS.origin);
+  const agents = readOptions($, SELECTORS.agent);
+
+  if (tripTypes.length === 0) {
+    throw new Error(`No se encontraron tipos de viaje (${SELECTORS.tripType}) en la página de cotización`);
+  }
+
+  const allDestinations = readOptions($, SELECTORS.destination, true);
+  const destinations: CatalogData['destinations'] = {};
+  for (const tripType of tripTypes) {
+    destinations[tripType.value] = allDestinations
+      .filter((destination) => !destination.disabled && appliesToTripType(destination, tripType));
+  }
+
+  return { tripTypes, origins, destinations, agents };
+}
+
+/**
+ * Fetch the quotation page and parse its catalog
+ */
+export async function scrapeCatalogOverHttp(client: MercantilSegurosAPIClient = new MercantilSegurosAPIClient()): Promise<CatalogData> {
+  log('📚 Obteniendo catálogo vía HTTP...');
+  const catalog = parseCatalogHtml(await client.getQuotePageHtml());
+
+  log(`✅ ${catalog.tripTypes.length} tipos de viaje, ${catalog.origins.length} orígenes, ${catalog.agents.length} agentes`);
+  for (const [tripType, options] of Object.entries(catalog.destinations)) {
+    log(`   ${tripType}: ${options.map((d) => d.text).join(', ')}`);
+  }
+  return catalog;
+}
+
+function readOptions($: CheerioAPI, selector: string, keepState = false): CatalogOption[] {
+  return $(`${selector} option`)
+    .toArray()
+    .map((element): CatalogOption | null => {
+      const option = $(element);
+      const value = (option.attr('value') || '').trim();
+      const text = option.text().trim();
+      if (!value || !text || text === PLACEHOLDER_TEXT) {
+        return null;
+      }
+      if (!keepState) {
+        return { value, text };
+      }
+
+      // Options hidden without a data-filter are never shown by the page script
+      const style = (option.attr('style') || '').replace(/\s+/g, '');
+      const hidden = option.attr('hidden') !== undefined || style.includes('display:none');
+      const dataFilter = option.attr('data-filter');
+      return {
+        value,
+        text,
+        disabled: option.attr('disabled') !== undefined || (hidden && !dataFilter),
+        dataFilter,
+      };
+    })
+    .filter((option): option is CatalogOption => option !== null);
+}
+
+/**
+ * data-filter holds the trip type value(s) a destination belongs to; no filter means all trip types
+ */
+function appliesToTripType(destination: CatalogOption, tripType: CatalogOption): boolean {
+  if (!destination.dataFilter) {
+    return true;
+  }
+  return destination.dataFilter
+    .split(/[,|]/)
+    .map((filter) => filter.trim())
+    .some((filter) => filter === tripType.value || filter === tripType.text);
+}
+
+// Run if this file is executed directly
+if (require.main === module) {
+  scrapeCatalogOverHttp()
+    .then((catalog) => {
+      storeScrapedCatalog(catalog, 'http-scrape');
+    })
+    .catch((error) => {
+      console.error('💥 Fatal error:', error);
+      process.exitCode = 1;
+    });
+}
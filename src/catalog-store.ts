@@ -0,0 +1,375 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import { CatalogData, CatalogDiff, CatalogOption, CatalogOptionDiff, CatalogVersion } from './types';
+import { getAppConfig } from './config';
+import { log } from './logger';
+
+/**
+ * Versioned catalog snapshots.
+ *
+ * Every scrape is stored under <dataDir>/catalogs/ and only becomes the live catalog
+ * (<dataDir>/catalog.json, read by /api/catalog and the quote paths) once it passes
+ * validation. Older snapshots stay around so a bad scrape can be rolled back.
+ */
+
+// A list shrinking by more than this is treated as a broken scrape, not a real change
+const MAX_SHRINK_RATIO = 0.5;
+
+const COUNT_LABELS: Record<keyof CatalogVersion['counts'], string> = {
+  tripTypes: 'Los tipos de viaje',
+  origins: 'Los orígenes',
+  destinations: 'Los destinos',
+  agents: 'Los agentes',
+};
+
+interface CatalogManifest {
+  current: string | null;
+  versions: CatalogVersion[];
+}
+
+export interface PromoteOptions {
+  force?: boolean; // Skip the shrink check; structural errors are never skipped
+}
+
+export class CatalogStore {
+  private snapshotDir: string;
+  private manifestPath: string;
+  private livePath: string;
+
+  constructor(private dataDir: string = getAppConfig().dataDir) {
+    this.snapshotDir = path.join(dataDir, 'catalogs');
+    this.manifestPath = path.join(this.snapshotDir, 'manifest.json');
+    this.livePath = path.join(dataDir, 'catalog.json');
+  }
+
+  /**
+   * All versions, newest first
+   */
+  list(): { current: string | null; versions: CatalogVersion[] } {
+    const manifest = this.readManifest();
+    return {
+      current: manifest.current,
+      versions: [...manifest.versions].sort((a, b) => b.id.localeCompare(a.id)),
+    };
+  }
+
+  getCurrentVersionId(): string | null {
+    return this.readManifest().current;
+  }
+
+  get(id: string): CatalogData {
+    const snapshotPath = this.snapshotPath(id);
+    if (!fs.existsSync(snapshotPath)) {
+      throw new Error(`Versión de catálogo no encontrada: ${id}`);
+    }
+    return JSON.parse(fs.readFileSync(snapshotPath, 'utf-8'));
+  }
+
+  /**
+   * Store a snapshot without making it live
+   */
+  save(catalog: CatalogData, source: string): CatalogVersion {
+    const manifest = this.readManifest();
+    const createdAt = new Date().toISOString();
+
+    let id = createdAt.replace(/[:.]/g, '-');
+    for (let suffix = 1; manifest.versions.some((v) => v.id === id); suffix++) {
+      id = `${createdAt.replace(/[:.]/g, '-')}-${suffix}`;
+    }
+
+    const version: CatalogVersion = { id, createdAt, source, counts: countCatalog(catalog) };
+    fs.mkdirSync(this.snapshotDir, { recursive: true });
+    writeJsonAtomic(this.snapshotPath(id), catalog);
+    manifest.versions.push(version);
+    this.writeManifest(manifest);
+    return version;
+  }
+
+  /**
+   * Validate a snapshot against the live catalog and make it live
+   */
+  promote(id: string, options: PromoteOptions = {}): CatalogVersion {
+    const manifest = this.readManifest();
+    const version = manifest.versions.find((v) => v.id === id);
+    if (!version) {
+      throw new Error(`Versión de catálogo no encontrada: ${id}`);
+    }
+
+    const catalog = this.get(id);
+    const current = manifest.current && manifest.current !== id ? this.get(manifest.current) : null;
+    const errors = validateCatalogSnapshot(catalog, options.force ? null : current);
+    if (errors.length > 0) {
+      throw new Error(`El catálogo ${id} no pasó la validación: ${errors.join('; ')}`);
+    }
+
+    writeJsonAtomic(this.livePath, catalog);
+    version.promotedAt = new Date().toISOString();
+    manifest.current = id;
+    this.writeManifest(manifest);
+    return version;
+  }
+
+  /**
+   * Make an older snapshot live again; defaults to the one before the current version
+   */
+  rollback(id?: string): CatalogVersion {
+    const { current, versions } = this.list();
+    const target = id || versions.find((v) => current !== null && v.id < current)?.id;
+    if (!target) {
+      throw new Error('No hay una versión anterior a la que volver');
+    }
+    // Rolling back to a snapshot that was live before is deliberate, so the shrink check does not apply
+    return this.promote(target, { force: true });
+  }
+
+  diff(fromId: string, toId: string): CatalogDiff {
+    return diffCatalogs(this.get(fromId), this.get(toId), fromId, toId);
+  }
+
+  private readManifest(): CatalogManifest {
+    if (fs.existsSync(this.manifestPath)) {
+      return JSON.parse(fs.readFileSync(this.manifestPath, 'utf-8'));
+    }
+
+    // First use: adopt the catalog that is already live as the initial version
+    const manifest: CatalogManifest = { current: null, versions: [] };
+    if (fs.existsSync(this.livePath)) {
+      const catalog: CatalogData = JSON.parse(fs.readFileSync(this.livePath, 'utf-8'));
+      const createdAt = fs.statSync(this.livePath).mtime.toISOString();
+      const id = createdAt.replace(/[:.]/g, '-');
+      fs.mkdirSync(this.snapshotDir, { recursive: true });
+      writeJsonAtomic(this.snapshotPath(id), catalog);
+      manifest.versions.push({ id, createdAt, source: 'import', counts: countCatalog(catalog), promotedAt: createdAt });
+      manifest.current = id;
+      this.writeManifest(manifest);
+    }
+    return manifest;
+  }
+
+  private writeManifest(manifest: CatalogManifest): void {
+    fs.mkdirSync(this.snapshotDir, { recursive: true });
+    writeJsonAtomic(this.manifestPath, manifest);
+  }
+
+  private snapshotPath(id: string): string {
+    if (!/^[\w-]+$/.test(id)) {
+      throw new Error(`ID de versión inválido: ${id}`);
+    }
+    return path.join(this.snapshotDir, `catalog-${id}.json`);
+  }
+}
+
+/**
+ * Structural checks, plus a shrink check against the live catalog when one is given
+ */
+export function validateCatalogSnapshot(catalog: CatalogData, current: CatalogData | null): string[] {
+  const errors: string[] = [];
+  const lists: Array<[string, CatalogOption[] | undefined]> = [
+    ['tipos de viaje', catalog.tripTypes],
+    ['orígenes', catalog.origins],
+    ['agentes', catalog.agents],
+  ];
+
+  for (const [label, options] of lists) {
+    if (!Array.isArray(options) || options.length === 0) {
+      errors.push(`No hay ${label}`);
+      continue;
+    }
+    if (options.some((option) => !option.value || !option.text)) {
+      errors.push(`Hay ${label} sin valor o texto`);
+    }
+    const values = options.map((option) => option.value);
+    if (new Set(values).size !== values.length) {
+      errors.push(`Hay ${label} con valores duplicados`);
+    }
+  }
+
+  for (const tripType of catalog.tripTypes || []) {
+    if (!catalog.destinations?.[tripType.value]?.length) {
+      errors.push(`No hay destinos para "${tripType.text}"`);
+    }
+  }
+
+  if (current) {
+    const before = countCatalog(current);
+    const after = countCatalog(catalog);
+    for (const key of Object.keys(COUNT_LABELS) as Array<keyof CatalogVersion['counts']>) {
+      if (after[key] < before[key] * (1 - MAX_SHRINK_RATIO)) {
+        errors.push(`${COUNT_LABELS[key]} bajaron de ${before[key]} a ${after[key]}`);
+      }
+    }
+  }
+
+  return errors;
+}
+
+export function diffCatalogs(before: CatalogData, after: CatalogData, from = 'before', to = 'after'): CatalogDiff {
+  const tripTypeKeys = new Set([...Object.keys(before.destinations), ...Object.keys(after.destinations)]);
+  const destinations: CatalogDiff['destinations'] = {};
+  for (const tripType of tripTypeKeys) {
+    const destinationDiff = diffOptions(before.destinations[tripType] || [], after.destinations[tripType] || []);
+    if (hasOptionChanges(destinationDiff)) {
+      destinations[tripType] = destinationDiff;
+    }
+  }
+
+  const tripTypes = diffOptions(before.tripTypes, after.tripTypes);
+  const origins = diffOptions(before.origins, after.origins);
+  const agents = diffOptions(before.agents, after.agents);
+
+  return {
+    from,
+    to,
+    tripTypes,
+    origins,
+    destinations,
+    agents,
+    hasChanges: [tripTypes, origins, agents, ...Object.values(destinations)].some(hasOptionChanges),
+  };
+}
+
+export function formatCatalogDiff(diff: CatalogDiff): string {
+  if (!diff.hasChanges) {
+    return `✅ Sin cambios entre ${diff.from} y ${diff.to}`;
+  }
+
+  const lines = [`📋 Cambios de ${diff.from} a ${diff.to}:`];
+  const section = (title: string, optionDiff: CatalogOptionDiff) => {
+    if (!hasOptionChanges(optionDiff)) return;
+    lines.push(`  ${title}:`);
+    optionDiff.added.forEach((option) => lines.push(`    + ${option.text} (${option.value})`));
+    optionDiff.removed.forEach((option) => lines.push(`    - ${option.text} (${option.value})`));
+    optionDiff.renamed.forEach((rename) => lines.push(`    ~ ${rename.from} -> ${rename.to} (${rename.value})`));
+  };
+
+  section('Tipos de viaje', diff.tripTypes);
+  section('Orígenes', diff.origins);
+  for (const [tripType, destinationDiff] of Object.entries(diff.destinations)) {
+    section(`Destinos (${tripType})`, destinationDiff);
+  }
+  section('Agentes', diff.agents);
+  return lines.join('\n');
+}
+
+/**
+ * Save a fresh scrape, log what changed and make it live if it passes validation
+ */
+export function storeScrapedCatalog(catalog: CatalogData, source: string, catalogStore: CatalogStore = getCatalogStore()): CatalogVersion {
+  const previousVersion = catalogStore.getCurrentVersionId();
+  const version = catalogStore.save(catalog, source);
+  log(`\n📁 Catálogo guardado como versión ${version.id}`);
+
+  if (previousVersion) {
+    log(formatCatalogDiff(catalogStore.diff(previousVersion, version.id)));
+  }
+  try {
+    catalogStore.promote(version.id);
+    log(`✅ Versión ${version.id} publicada como catálogo activo`);
+  } catch (error) {
+    console.warn(`⚠️ La versión ${version.id} no se publicó: ${error instanceof Error ? error.message : error}`);
+  }
+  return version;
+}
+
+let store: CatalogStore | null = null;
+
+export function getCatalogStore(): CatalogStore {
+  if (!store) {
+    store = new CatalogStore();
+  }
+  return store;
+}
+
+/**
+ * Options are matched by value, the ID Mercantil submits; a changed text is a rename
+ */
+function diffOptions(before: CatalogOption[], after: CatalogOption[]): CatalogOptionDiff {
+  const beforeByValue = new Map(before.map((option) => [option.value, option]));
+  const afterByValue = new Map(after.map((option) => [option.value, option]));
+
+  return {
+    added: after.filter((option) => !beforeByValue.has(option.value)),
+    removed: before.filter((option) => !afterByValue.has(option.value)),
+    renamed: after
+      .filter((option) => beforeByValue.has(option.value) && beforeByValue.get(option.value)!.text !== option.text)
+      .map((option) => ({ value: option.value, from: beforeByValue.get(option.value)!.text, to: option.text })),
+  };
+}
+
+function hasOptionChanges(diff: CatalogOptionDiff): boolean {
+  return diff.added.length > 0 || diff.removed.length > 0 || diff.renamed.length > 0;
+}
+
+function countCatalog(catalog: CatalogData): CatalogVersion['counts'] {
+  return {
+    tripTypes: catalog.tripTypes?.length || 0,
+    origins: catalog.origins?.length || 0,
+    destinations: Object.values(catalog.destinations || {}).reduce((sum, options) => sum + options.length, 0),
+    agents: catalog.agents?.length || 0,
+  };
+}
+
+/**
+ * Write to a temporary file first so readers never see a half-written catalog
+ */
+function writeJsonAtomic(filePath: string, data: unknown): void {
+  const tmpPath = `${filePath}.${process.pid}.tmp`;
+  fs.writeFileSync(tmpPath, JSON.stringify(data, null, 2), 'utf-8');
+  fs.renameSync(tmpPath, filePath);
+}
+
+// Run if this file is executed directly
+if (require.main === module) {
+  const [command, ...args] = process.argv.slice(2);
+  const catalogStore = getCatalogStore();
+
+  try {
+    switch (command) {
+      case 'list': {
+        const { current, versions } = catalogStore.list();
+        for (const version of versions) {
+          const marker = version.id === current ? '➡️ ' : '   ';
+          const { origins, destinations, agents } = version.counts;
+          console.log(`${marker}${version.id}  ${version.source}  orígenes: ${origins}, destinos: ${destinations}, agentes: ${agents}`);
+        }
+        break;
+      }
+      case 'diff': {
+        const [from, to = catalogStore.getCurrentVersionId()] = args;
+        if (!from || !to) {
+          throw new Error('Uso: diff <desde> [hasta]');
+        }
+        console.log(formatCatalogDiff(catalogStore.diff(from, to)));
+        break;
+      }
+      case 'import': {
+        // Adopt a catalog-<timestamp>.json written by an older scrape
+        if (!args[0]) {
+          throw new Error('Uso: import <archivo>');
+        }
+        const version = catalogStore.save(JSON.parse(fs.readFileSync(args[0], 'utf-8')), 'import');
+        console.log(`💾 Importado como ${version.id}`);
+        break;
+      }
+      case 'promote': {
+        if (!args[0]) {
+          throw new Error('Uso: promote <versión> [--force]');
+        }
+        const version = catalogStore.promote(args[0], { force: args.includes('--force') });
+        console.log(`✅ ${version.id} es ahora el catálogo activo`);
+        break;
+      }
+      case 'rollback': {
+        const version = catalogStore.rollback(args[0]);
+        console.log(`⏪ Catálogo restaurado a ${version.id}`);
+        break;
+      }
+      default:
+        console.log('Uso: catalog-store <list | diff <desde> [hasta] | import <archivo> | promote <versión> [--force] | rollback [versión]>');
+        process.exitCode = command ? 1 : 0;
+    }
+  } catch (error) {
+    console.error(`❌ ${error instanceof Error ? error.message : error}`);
+    process.exitCode = 1;
+  }
+}
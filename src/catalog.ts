@@ -0,0 +1,114 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import { createHash } from 'crypto';
+import { CatalogData } from './types';
+import { getAppConfig } from './config';
+import { log } from './logger';
+
+/**
+ * In-memory catalog service.
+ *
+ * The catalog is read from the dataDir setting (data/ by default): catalog.json
+ * if present, otherwise the newest timestamped catalog-*.json written by older
+ * scrapes. It is parsed once and kept in memory; a watcher on the directory drops
+ * the cache when a catalog file changes (e.g. a snapshot is promoted), and every
+ * read also checks the file's mtime in case the platform does not deliver watch events.
+ */
+
+export interface CatalogSnapshot {
+  catalog: CatalogData;
+  etag: string; // Quoted strong ETag of the file contents
+  lastModified: Date;
+  filePath: string;
+}
+
+export class CatalogService {
+  private snapshot: CatalogSnapshot | null = null;
+  private snapshotMtimeMs = 0;
+  private watcher: fs.FSWatcher | null = null;
+
+  constructor(private dataDir: string = getAppConfig().dataDir) {}
+
+  getCatalog(): CatalogData {
+    return this.getSnapshot().catalog;
+  }
+
+  getSnapshot(): CatalogSnapshot {
+    const filePath = this.findCatalogFile();
+    const mtimeMs = fs.statSync(filePath).mtimeMs;
+
+    if (!this.snapshot || this.snapshot.filePath !== filePath || this.snapshotMtimeMs !== mtimeMs) {
+      const contents = fs.readFileSync(filePath, 'utf-8');
+      this.snapshot = {
+        catalog: JSON.parse(contents),
+        etag: `"${createHash('sha1').update(contents).digest('hex')}"`,
+        lastModified: new Date(Math.floor(mtimeMs / 1000) * 1000), // HTTP dates have second precision
+        filePath,
+      };
+      this.snapshotMtimeMs = mtimeMs;
+      log(`📚 Catálogo cargado desde ${path.basename(filePath)}`);
+    }
+
+    this.watch();
+    return this.snapshot;
+  }
+
+  /**
+   * Drop the cached catalog; the next read goes back to disk
+   */
+  invalidate(): void {
+    this.snapshot = null;
+  }
+
+  close(): void {
+    this.watcher?.close();
+    this.watcher = null;
+  }
+
+  private findCatalogFile(): string {
+    const catalogPath = path.join(this.dataDir, 'catalog.json');
+    if (fs.existsSync(catalogPath)) {
+      return catalogPath;
+    }
+
+    const catalogFiles = fs.existsSync(this.dataDir)
+      ? fs.readdirSync(this.dataDir).filter((f) => f.startsWith('catalog-') && f.endsWith('.json'))
+      : [];
+    if (catalogFiles.length === 0) {
+      throw new Error('No se encontró archivo de catálogo');
+    }
+    return path.join(this.dataDir, catalogFiles.sort().reverse()[0]);
+  }
+
+  private watch(): void {
+    if (this.watcher) return;
+    try {
+      this.watcher = fs.watch(this.dataDir, (_, filename) => {
+        if (!filename || filename.toString().startsWith('catalog')) {
+          this.invalidate();
+        }
+      });
+      // Never keep a CLI process alive just for the watcher
+      this.watcher.unref();
+      this.watcher.on('error', () => this.close());
+    } catch {
+      // Watching is an optimization; the mtime check in getSnapshot() still catches changes
+    }
+  }
+}
+
+let service: CatalogService | null = null;
+
+export function getCatalogService(): CatalogService {
+  if (!service) {
+    service = new CatalogService();
+  }
+  return service;
+}
+
+/**
+ * The live catalog, parsed once per file change
+ */
+export function loadCatalogData(): CatalogData {
+  return getCatalogService().getCatalog();
+}
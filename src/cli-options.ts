@@ -0,0 +1,16 @@
+/**
+ * Argument parsing shared by the command-line entry points (src/cli.ts, src/pricing-export.ts)
+ */
+
+/**
+ * Value given as `--name <value>`; a missing value, or another flag in its place, is an error
+ */
+export function readOption(args: string[], name: string): string | undefined {
+  const index = args.indexOf(`--${name}`);
+  if (index < 0) return undefined;
+  const value = args[index + 1];
+  if (value === undefined || value.startsWith('--')) {
+    throw new Error(`--${name} necesita un valor`);
+  }
+  return value;
+}
@@ -0,0 +1,292 @@
+import { QuoteConfig, QuotePlan, QuoteRecordSummary, QuoteStrategy, CatalogData } from './types';
+import { getDefaultQuoteConfig } from './config';
+import { generateQuoteWithFallback } from './quote-strategy';
+import { loadCatalogData } from './catalog';
+import { describeValidationErrors, resolveQuoteConfig } from './quote-validator';
+import { getQuoteHistory, recordQuote, resolveHistoryFilter } from './quote-history';
+import { formatCoverage, formatMinorUnits } from './plan-details';
+import { MercantilSegurosAPIClient } from './api-client';
+import { extractPurchaseForms, isInternalField } from './purchase-form-extractor';
+import { scrapeCatalogOverHttp } from './catalog-scraper';
+import { storeScrapedCatalog } from './catalog-store';
+import { getBrowserManager } from './browser-manager';
+import { setLogOutput } from './logger';
+import { readOption } from './cli-options';
+import { scrapeCatalog } from './index';
+
+/**
+ * Command-line interface for scripting quotes from the shell.
+ * Run with: npm run bot -- <command> [options]
+ *
+ * Every command prints a table by default; with --json the result goes to stdout
+ * as JSON and the progress messages (see ./logger) move to stderr, so the output can be piped.
+ */
+
+const USAGE = `Uso: bot <comando> [opciones]
+
+Comandos:
+  quote           Cotizar un viaje
+                  [--trip-type "Viajes Por Día"|"Anual Multiviaje"] [--origin X] [--destination X]
+                  [--from DD/MM/AAAA] [--to DD/MM/AAAA] [--ages 35,32] [--agent ID]
+                  [--strategy http|browser|auto]
+                  Lo que no se indique sale de la configuración (sección quote)
+  catalog         Tipos de viaje, destinos, orígenes y agentes disponibles
+                  [--scrape [--strategy browser|http]] vuelve a leerlos del sitio
+  purchase-form   Campos del formulario de compra de un plan
+                  <url o uuid de la cotización> <plan, p. ej. D-50>
+  history         Cotizaciones guardadas
+                  [id] [--from AAAA-MM-DD] [--to AAAA-MM-DD] [--origin X] [--destination X] [--agent ID] [--limit N]
+
+Todos los comandos aceptan --json.`;
+
+const QUOTE_STRATEGIES = ['http', 'browser', 'auto'];
+
+/**
+ * Run one CLI command; returns the process exit code
+ */
+export async function runCli(argv: string[]): Promise<number> {
+  const [command, ...args] = argv;
+  const json = args.includes('--json');
+  if (json) {
+    setLogOutput('stderr'); // Keep stdout for the JSON itself so it can be piped
+  }
+
+  try {
+    switch (command) {
+      case 'quote':
+        return await quoteCommand(args, json);
+      case 'catalog':
+        return await catalogCommand(args, json);
+      case 'purchase-form':
+        return await purchaseFormCommand(args, json);
+      case 'history':
+        return historyCommand(args, json);
+      case 'help':
+      case '--help':
+      case '-h':
+      case undefined:
+        print(USAGE);
+        return 0;
+      default:
+        console.error(`❌ Comando desconocido: ${command}\n\n${USAGE}`);
+        return 1;
+    }
+  } catch (error) {
+    console.error(`❌ ${error instanceof Error ? error.message : error}`);
+    return 1;
+  }
+}
+
+async function quoteCommand(args: string[], json: boolean): Promise<number> {
+  const strategy = readOption(args, 'strategy') || 'auto';
+  if (!QUOTE_STRATEGIES.includes(strategy)) {
+    throw new Error(`--strategy debe ser uno de: ${QUOTE_STRATEGIES.join(', ')}`);
+  }
+
+  const defaults = getDefaultQuoteConfig();
+  const agesOption = readOption(args, 'ages');
+  const ages = agesOption ? agesOption.split(',').map((age) => parseInt(age.trim(), 10)) : defaults.ages;
+  const input: QuoteConfig = {
+    tripType: (readOption(args, 'trip-type') as QuoteConfig['tripType']) || defaults.tripType,
+    origin: readOption(args, 'origin') || defaults.origin,
+    destination: readOption(args, 'destination') || defaults.destination,
+    departureDate: readOption(args, 'from') || defaults.departureDate,
+    returnDate: readOption(args, 'to') || defaults.returnDate,
+    passengers: ages.length,
+    ages,
+    agent: readOption(args, 'agent') || defaults.agent,
+  };
+
+  // Same catalog resolution as the quote endpoint, so typos fail here instead of quoting a default
+  const { config, errors: validationErrors } = resolveQuoteConfig(input, loadCatalogData());
+  if (validationErrors.length > 0) {
+    const rejected = { success: false, error: describeValidationErrors(validationErrors), validationErrors };
+    if (json) {
+      printJson(rejected);
+    } else {
+      console.error('❌ Configuración de cotización inválida:');
+      validationErrors.forEach((error) => console.error(`   [${error.code}] ${error.message}`));
+    }
+    return 1;
+  }
+
+  try {
+    const result = await generateQuoteWithFallback(config, { strategy: strategy as QuoteStrategy | 'auto' });
+    const recorded = { ...result, ...recordQuote(config, result) };
+
+    if (json) {
+      printJson(recorded);
+    } else if (!result.success) {
+      console.error(`❌ No se pudo generar la cotización: ${result.error}`);
+    } else {
+      const plans = result.quoteData?.plans || [];
+      print(`\n✅ ${plans.length} planes vía ${result.strategy} en ${result.durationMs}ms`);
+      print(`   ${config.origin} → ${config.destination}, ${config.departureDate} - ${config.returnDate}, edades ${config.ages.join(', ')}\n`);
+      print(formatPlanTable(plans));
+      if (recorded.quoteId) {
+        print(`\n💾 Guardada en el historial como ${recorded.quoteId}`);
+      }
+    }
+    return result.success ? 0 : 1;
+  } finally {
+    await getBrowserManager().shutdown();
+  }
+}
+
+async function catalogCommand(args: string[], json: boolean): Promise<number> {
+  let catalog: CatalogData;
+  if (args.includes('--scrape')) {
+    const strategy = readOption(args, 'strategy') || 'browser';
+    if (strategy === 'http') {
+      catalog = await scrapeCatalogOverHttp();
+      storeScrapedCatalog(catalog, 'http-scrape');
+    } else if (strategy === 'browser') {
+      // Stores the snapshot itself and shuts the browser down
+      catalog = await scrapeCatalog();
+    } else {
+      throw new Error('--strategy debe ser browser o http');
+    }
+  } else {
+    catalog = loadCatalogData();
+  }
+
+  if (json) {
+    printJson(catalog);
+    return 0;
+  }
+
+  print('🧳 Tipos de viaje y destinos:');
+  for (const tripType of catalog.tripTypes) {
+    const destinations = catalog.destinations[tripType.value] || [];
+    print(`   ${tripType.text}: ${destinations.map((destination) => destination.text).join(', ') || '—'}`);
+  }
+  print(`\n🌎 Orígenes: ${catalog.origins.length}`);
+  print(`🧑‍💼 Agentes: ${catalog.agents.length}`);
+  return 0;
+}
+
+async function purchaseFormCommand(args: string[], json: boolean): Promise<number> {
+  const [quote, planId] = args.filter((arg) => !arg.startsWith('--'));
+  const quoteUuid = quote?.match(/(?:quotation\/)?([a-f0-9]{16,})/)?.[1];
+  if (!quoteUuid || !planId) {
+    throw new Error('Uso: purchase-form <url o uuid de la cotización> <plan>');
+  }
+
+  const { url, html } = await new MercantilSegurosAPIClient().fetchPurchasePage(quoteUuid, planId);
+  const forms = extractPurchaseForms(html);
+
+  if (json) {
+    printJson({ url, forms });
+    return 0;
+  }
+
+  print(`📋 ${url}`);
+  for (const form of forms) {
+    const fields = form.fields.filter((field) => !isInternalField(field.type, field.name, field.dataPremium || null));
+    if (fields.length === 0) continue;
+    print(`\nFormulario ${form.id || form.index} (${form.method.toUpperCase()} ${form.action || ''})`);
+    print(formatTable(
+      ['Campo', 'Nombre', 'Tipo', 'Requerido', 'Prima'],
+      fields.map((field) => [
+        field.label || '',
+        field.name || field.id || '',
+        field.type || field.tag,
+        field.required ? 'sí' : '',
+        field.dataPremium || '',
+      ])
+    ));
+  }
+  return 0;
+}
+
+function historyCommand(args: string[], json: boolean): number {
+  const history = getQuoteHistory();
+  const id = args[0] && !args[0].startsWith('--') ? args[0] : null;
+
+  if (id) {
+    const record = history.get(id);
+    if (!record) {
+      throw new Error(`No existe la cotización ${id}`);
+    }
+    if (json) {
+      printJson(record);
+      return 0;
+    }
+    print(`🧾 ${record.id} (${record.createdAt}, vía ${record.strategy || 'N/A'})`);
+    print(`   ${record.origin} → ${record.destination}, ${record.departureDate} - ${record.returnDate}, edades ${record.config.ages.join(', ')}`);
+    if (!record.success) {
+      print(`   ❌ ${record.error}`);
+      return 0;
+    }
+    print(`\n${formatPlanTable(record.plans)}`);
+    return 0;
+  }
+
+  const limit = readOption(args, 'limit');
+  // Same free-text resolution as /api/quotes, so "panama" finds the quotes stored as "Panamá"
+  const { items, total } = history.list(resolveHistoryFilter({
+    from: readOption(args, 'from'),
+    to: readOption(args, 'to'),
+    origin: readOption(args, 'origin'),
+    destination: readOption(args, 'destination'),
+    agent: readOption(args, 'agent'),
+    limit: limit ? parseInt(limit, 10) : undefined,
+  }));
+
+  if (json) {
+    printJson({ items, total });
+    return 0;
+  }
+
+  print(formatTable(
+    ['ID', 'Fecha', 'Viaje', 'Fechas', 'Pasajeros', 'Planes', 'Desde', 'Vía'],
+    items.map((item: QuoteRecordSummary) => [
+      item.id,
+      item.createdAt.slice(0, 16).replace('T', ' '),
+      `${item.origin} → ${item.destination}`,
+      `${item.departureDate} - ${item.returnDate}`,
+      String(item.passengers),
+      item.success ? String(item.planCount) : '❌',
+      item.success ? formatMinorUnits(item.lowestPriceMinor, item.currency || undefined) : item.error || '',
+      item.strategy || '',
+    ])
+  ));
+  print(`\n${items.length} de ${total} cotizaciones`);
+  return 0;
+}
+
+function formatPlanTable(plans: QuotePlan[]): string {
+  return formatTable(
+    ['Plan', 'Nombre', 'Cobertura', 'Por pasajero', 'Total'],
+    plans.map((plan) => [
+      plan.planId,
+      plan.title,
+      formatCoverage(plan.coverageAmount, plan.currency),
+      formatMinorUnits(plan.pricePerPassengerMinor, plan.currency),
+      formatMinorUnits(plan.totalPriceMinor ?? plan.priceMinor, plan.currency),
+    ])
+  );
+}
+
+// Plain text columns padded to the widest cell
+function formatTable(headers: string[], rows: string[][]): string {
+  const widths = headers.map((header, column) => Math.max(header.length, ...rows.map((row) => row[column].length)));
+  const formatRow = (cells: string[]) => cells.map((cell, column) => cell.padEnd(widths[column])).join('  ').trimEnd();
+  return [formatRow(headers), formatRow(widths.map((width) => '-'.repeat(width))), ...rows.map(formatRow)].join('\n');
+}
+
+// Command results always go to stdout; progress messages go through the logger
+function print(text = ''): void {
+  process.stdout.write(`${text}\n`);
+}
+
+function printJson(value: unknown): void {
+  print(JSON.stringify(value, null, 2));
+}
+
+// Run if this file is executed directly
+if (require.main === module) {
+  runCli(process.argv.slice(2)).then((code) => {
+    process.exitCode = code;
+  });
+}
@@ -1,19 +1,264 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import * as dotenv from 'dotenv';
+import { parse as parseYaml } from 'yaml';
 import { QuoteConfig } from './types';
 
-// Default configuration - can be overridden via environment variables or function parameters
-export const defaultConfig: QuoteConfig = {
-  tripType: 'Viajes Por Día',
-  origin: 'Panamá', // You can change this to any country
-  destination: 'Europa', // Will be validated against available options for trip type
-  departureDate: '13/01/2026',
-  returnDate: '15/01/2026',
-  passengers: 1,
-  ages: [30],
-  agent: '2851', // Risk Management Seguros, S.a. (rm Seguros)
+/**
+ * Application configuration, merged from (lowest to highest precedence):
+ * built-in defaults, a config file, environment variables (.env included) and
+ * per-call overrides. The file is MERCANTIL_CONFIG, or the first of
+ * mercantil.config.json / .yaml / .yml found in the working directory.
+ * Every value is checked against CONFIG_SCHEMA; an invalid setting fails loudly
+ * instead of silently falling back.
+ */
+
+export interface AppConfig {
+  baseUrl: string; // Mercantil's site, or the local stand-in (npm run fake-server)
+  defaultAgent: string;
+  headless: boolean;
+  adminApiOpen: boolean; // Admin endpoints without ADMIN_API_TOKEN; only for local use
+  dataDir: string; // Live catalog, catalog snapshots, layout baseline and (by default) the quote history
+  screenshotsDir: string;
+  debugDir: string;
+  timeouts: {
+    navigationMs: number; // page.goto()
+    formMs: number; // Quote and purchase forms appearing
+    resultsMs: number; // Quote results after submitting
+    elementMs: number; // Single inputs and buttons
+  };
+  concurrency: {
+    browserPages: number; // Pages open at the same time in the shared Chromium
+    browserAcquireTimeoutMs: number;
+    sessionPoolSize: number; // Warm HTTP sessions kept by the quote endpoint
+    sessionMaxAgeMs: number;
+    sessionMaxErrors: number;
+  };
+  history: {
+    dbPath: string;
+    shareTtlDays: number;
+  };
+  recording: {
+    mode: 'off' | 'record' | 'replay';
+    dir: string;
+  };
+  quote: {
+    tripType: QuoteConfig['tripType'];
+    origin: string;
+    destination: string;
+    departureDate: string; // DD/MM/YYYY
+    returnDate: string;
+    ages: number[];
+  };
+}
+
+export type AppConfigOverrides = {
+  [K in keyof AppConfig]?: AppConfig[K] extends unknown[] ? AppConfig[K] : AppConfig[K] extends object ? Partial<AppConfig[K]> : AppConfig[K];
+};
+
+type ConfigValueType = 'string' | 'url' | 'path' | 'boolean' | 'positiveInt' | 'ages' | 'date' | 'enum';
+
+interface ConfigFieldSpec {
+  key: string; // Dotted path in AppConfig
+  env: string;
+  type: ConfigValueType;
+  values?: string[]; // For enum
+}
+
+export const CONFIG_SCHEMA: ConfigFieldSpec[] = [
+  { key: 'baseUrl', env: 'MERCANTIL_BASE_URL', type: 'url' },
+  { key: 'defaultAgent', env: 'MERCANTIL_DEFAULT_AGENT', type: 'string' },
+  { key: 'headless', env: 'MERCANTIL_HEADLESS', type: 'boolean' },
+  { key: 'adminApiOpen', env: 'ADMIN_API_OPEN', type: 'boolean' },
+  { key: 'dataDir', env: 'MERCANTIL_DATA_DIR', type: 'path' },
+  { key: 'screenshotsDir', env: 'MERCANTIL_SCREENSHOTS_DIR', type: 'path' },
+  { key: 'debugDir', env: 'MERCANTIL_DEBUG_DIR', type: 'path' },
+  { key: 'timeouts.navigationMs', env: 'MERCANTIL_NAVIGATION_TIMEOUT_MS', type: 'positiveInt' },
+  { key: 'timeouts.formMs', env: 'MERCANTIL_FORM_TIMEOUT_MS', type: 'positiveInt' },
+  { key: 'timeouts.resultsMs', env: 'MERCANTIL_RESULTS_TIMEOUT_MS', type: 'positiveInt' },
+  { key: 'timeouts.elementMs', env: 'MERCANTIL_ELEMENT_TIMEOUT_MS', type: 'positiveInt' },
+  { key: 'concurrency.browserPages', env: 'BROWSER_MAX_CONCURRENCY', type: 'positiveInt' },
+  { key: 'concurrency.browserAcquireTimeoutMs', env: 'BROWSER_ACQUIRE_TIMEOUT_MS', type: 'positiveInt' },
+  { key: 'concurrency.sessionPoolSize', env: 'QUOTE_POOL_SIZE', type: 'positiveInt' },
+  { key: 'concurrency.sessionMaxAgeMs', env: 'QUOTE_POOL_MAX_AGE_MS', type: 'positiveInt' },
+  { key: 'concurrency.sessionMaxErrors', env: 'QUOTE_POOL_MAX_ERRORS', type: 'positiveInt' },
+  { key: 'history.dbPath', env: 'QUOTE_DB_PATH', type: 'path' },
+  { key: 'history.shareTtlDays', env: 'QUOTE_SHARE_TTL_DAYS', type: 'positiveInt' },
+  { key: 'recording.mode', env: 'MERCANTIL_HTTP_MODE', type: 'enum', values: ['off', 'record', 'replay'] },
+  { key: 'recording.dir', env: 'MERCANTIL_RECORDINGS_DIR', type: 'path' },
+  { key: 'quote.tripType', env: 'MERCANTIL_TRIP_TYPE', type: 'enum', values: ['Viajes Por Día', 'Anual Multiviaje'] },
+  { key: 'quote.origin', env: 'MERCANTIL_ORIGIN', type: 'string' },
+  { key: 'quote.destination', env: 'MERCANTIL_DESTINATION', type: 'string' },
+  { key: 'quote.departureDate', env: 'MERCANTIL_DEPARTURE_DATE', type: 'date' },
+  { key: 'quote.returnDate', env: 'MERCANTIL_RETURN_DATE', type: 'date' },
+  { key: 'quote.ages', env: 'MERCANTIL_AGES', type: 'ages' },
+];
+
+export const CONFIG_DEFAULTS: AppConfig = {
+  baseUrl: 'https://www1.mercantilseguros.com',
+  defaultAgent: '2851', // Risk Management Seguros, S.a. (rm Seguros)
+  headless: true,
+  adminApiOpen: false,
+  dataDir: 'data',
+  screenshotsDir: 'screenshots',
+  debugDir: 'debug',
+  timeouts: {
+    navigationMs: 60000,
+    formMs: 15000,
+    resultsMs: 30000,
+    elementMs: 5000,
+  },
+  concurrency: {
+    browserPages: 2,
+    browserAcquireTimeoutMs: 60000,
+    sessionPoolSize: 3,
+    sessionMaxAgeMs: 10 * 60 * 1000,
+    sessionMaxErrors: 3,
+  },
+  history: {
+    dbPath: 'quotes.db', // Relative to dataDir unless set
+    shareTtlDays: 30,
+  },
+  recording: {
+    mode: 'off',
+    dir: path.join('fixtures', 'recordings'),
+  },
+  quote: {
+    tripType: 'Viajes Por Día',
+    origin: 'Panamá',
+    destination: 'Europa', // Will be validated against available options for trip type
+    departureDate: '13/01/2026',
+    returnDate: '15/01/2026',
+    ages: [30],
+  },
 };
 
+const CONFIG_FILE_NAMES = ['mercantil.config.json', 'mercantil.config.yaml', 'mercantil.config.yml'];
+
+let baseConfig: AppConfig | null = null;
+
+/**
+ * Configuration for this process; overrides apply to this call only
+ */
+export function getAppConfig(overrides: AppConfigOverrides = {}): AppConfig {
+  if (!baseConfig) {
+    baseConfig = loadAppConfig();
+  }
+  return Object.keys(overrides).length > 0 ? mergeConfig(baseConfig, overrides) : baseConfig;
+}
+
+/**
+ * Drop the cached configuration; the next read goes back to the file and environment
+ */
+export function resetAppConfig(): void {
+  baseConfig = null;
+}
+
+export function loadAppConfig(
+  env: NodeJS.ProcessEnv = process.env,
+  cwd: string = process.cwd()
+): AppConfig {
+  if (env === process.env) {
+    dotenv.config({ path: path.join(cwd, '.env'), quiet: true });
+  }
+
+  const filePath = env.MERCANTIL_CONFIG
+    ? path.resolve(cwd, env.MERCANTIL_CONFIG)
+    : CONFIG_FILE_NAMES.map((name) => path.join(cwd, name)).find((file) => fs.existsSync(file));
+
+  const layers: Array<{ source: string; values: Record<string, unknown> }> = [];
+  if (filePath) {
+    layers.push({ source: path.basename(filePath), values: flatten(readConfigFile(filePath)) });
+  }
+  const envValues: Record<string, unknown> = {};
+  for (const spec of CONFIG_SCHEMA) {
+    if (env[spec.env] !== undefined && env[spec.env] !== '') {
+      envValues[spec.key] = env[spec.env];
+    }
+  }
+  layers.push({ source: 'entorno', values: envValues });
+
+  const config = structuredClone(CONFIG_DEFAULTS);
+  const errors: string[] = [];
+  for (const { source, values } of layers) {
+    for (const [key, raw] of Object.entries(values)) {
+      const spec = CONFIG_SCHEMA.find((field) => field.key === key);
+      if (!spec) {
+        errors.push(`${source}: opción desconocida "${key}"`);
+        continue;
+      }
+      const result = coerceValue(spec, raw, cwd);
+      if ('error' in result) {
+        errors.push(`${source}: ${source === 'entorno' ? spec.env : key} ${result.error}`);
+      } else {
+        setPath(config, key, result.value);
+      }
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Configuración inválida: ${errors.join('; ')}`);
+  }
+  config.dataDir = path.resolve(cwd, config.dataDir);
+  config.screenshotsDir = path.resolve(cwd, config.screenshotsDir);
+  config.debugDir = path.resolve(cwd, config.debugDir);
+  // Paths that were set are already absolute; only the default follows dataDir
+  config.history.dbPath = path.resolve(config.dataDir, config.history.dbPath);
+  config.recording.dir = path.resolve(cwd, config.recording.dir);
+  return config;
+}
+
+/**
+ * Apply per-call overrides; they go through the same validation as the file and environment
+ */
+export function mergeConfig(config: AppConfig, overrides: AppConfigOverrides): AppConfig {
+  const merged = structuredClone(config);
+  const errors: string[] = [];
+  for (const [key, raw] of Object.entries(flatten(overrides as Record<string, unknown>))) {
+    if (raw === undefined) continue;
+    const spec = CONFIG_SCHEMA.find((field) => field.key === key);
+    const result = spec ? coerceValue(spec, raw, process.cwd()) : { error: 'no es una opción conocida' };
+    if ('error' in result) {
+      errors.push(`${key} ${result.error}`);
+    } else {
+      setPath(merged, key, result.value);
+    }
+  }
+  if (errors.length > 0) {
+    throw new Error(`Configuración inválida: ${errors.join('; ')}`);
+  }
+  return merged;
+}
+
+/**
+ * Quote parameters used when none are given (bot main(), drift checks)
+ */
+export function getDefaultQuoteConfig(config: AppConfig = getAppConfig()): QuoteConfig {
+  return {
+    ...config.quote,
+    ages: [...config.quote.ages],
+    passengers: config.quote.ages.length,
+    agent: config.defaultAgent,
+  };
+}
+
+export const QUOTE_PATH = '/as/viajesint/MRP022052';
+
 // URL of the quotation page
-export const QUOTE_URL = 'https://www1.mercantilseguros.com/as/viajesint/mrp022052';
+export function quotePageUrl(baseUrl: string = getAppConfig().baseUrl): string {
+  return `${baseUrl}${QUOTE_PATH}`;
+}
+
+/**
+ * buy/step-one page of a plan; the quote page calls plans D-xx, the purchase pages M-xx
+ */
+export function purchasePageUrl(quoteUuid: string, planId: string, baseUrl: string = getAppConfig().baseUrl): string {
+  return `${quotePageUrl(baseUrl)}/quotation/${quoteUuid}/${planId.replace(/^D-/, 'M-')}/buy/step-one`;
+}
+
+export function isMercantilUrl(url: string): boolean {
+  return url.startsWith(getAppConfig().baseUrl);
+}
 
 // Selectors for form elements
 export const SELECTORS = {
@@ -27,3 +272,82 @@ export const SELECTORS = {
   ageInput: (index: number) => `#passengers-age\\[${index}\\]`,
 } as const;
 
+function readConfigFile(filePath: string): Record<string, unknown> {
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`No se encontró el archivo de configuración: ${filePath}`);
+  }
+  const contents = fs.readFileSync(filePath, 'utf-8');
+  try {
+    const parsed = /\.ya?ml$/i.test(filePath) ? parseYaml(contents) : JSON.parse(contents);
+    if (parsed === null || parsed === undefined) return {};
+    if (typeof parsed !== 'object' || Array.isArray(parsed)) {
+      throw new Error('debe contener un objeto');
+    }
+    return parsed as Record<string, unknown>;
+  } catch (error) {
+    throw new Error(`Archivo de configuración inválido (${filePath}): ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+function coerceValue(spec: ConfigFieldSpec, raw: unknown, cwd: string): { value: unknown } | { error: string } {
+  const text = typeof raw === 'string' ? raw.trim() : raw;
+
+  switch (spec.type) {
+    case 'string':
+    case 'path':
+      if (typeof text !== 'string' || !text) return { error: 'debe ser un texto no vacío' };
+      return { value: spec.type === 'path' ? path.resolve(cwd, text) : text };
+    case 'url': {
+      if (typeof text !== 'string' || !/^https?:\/\/[^/]+/i.test(text)) return { error: 'debe ser una URL http(s)' };
+      return { value: text.replace(/\/+$/, '') };
+    }
+    case 'boolean':
+      if (typeof text === 'boolean') return { value: text };
+      if (typeof text === 'string' && ['true', '1', 'yes', 'false', '0', 'no'].includes(text.toLowerCase())) {
+        return { value: ['true', '1', 'yes'].includes(text.toLowerCase()) };
+      }
+      return { error: 'debe ser true o false' };
+    case 'positiveInt': {
+      const value = typeof text === 'number' ? text : typeof text === 'string' && /^\d+$/.test(text) ? parseInt(text, 10) : NaN;
+      return Number.isInteger(value) && value > 0 ? { value } : { error: 'debe ser un entero positivo' };
+    }
+    case 'enum':
+      return typeof text === 'string' && spec.values!.includes(text)
+        ? { value: text }
+        : { error: `debe ser uno de: ${spec.values!.join(', ')}` };
+    case 'date':
+      return typeof text === 'string' && /^\d{2}\/\d{2}\/\d{4}$/.test(text)
+        ? { value: text }
+        : { error: 'debe tener el formato DD/MM/AAAA' };
+    case 'ages': {
+      const list = Array.isArray(text) ? text : typeof text === 'string' ? text.split(',') : [];
+      const ages = list.map((age) => (typeof age === 'number' ? age : parseInt(String(age).trim(), 10)));
+      return ages.length > 0 && ages.every((age) => Number.isInteger(age) && age >= 0 && age <= 120)
+        ? { value: ages }
+        : { error: 'debe ser una lista de edades, p. ej. 35,32' };
+    }
+  }
+}
+
+// { timeouts: { navigationMs: 1 } } -> { 'timeouts.navigationMs': 1 }; arrays are values
+function flatten(values: Record<string, unknown>, prefix = ''): Record<string, unknown> {
+  const flat: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(values)) {
+    const fullKey = prefix ? `${prefix}.${key}` : key;
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      Object.assign(flat, flatten(value as Record<string, unknown>, fullKey));
+    } else {
+      flat[fullKey] = value;
+    }
+  }
+  return flat;
+}
+
+function setPath(target: AppConfig, key: string, value: unknown): void {
+  const parts = key.split('.');
+  let node = target as unknown as Record<string, unknown>;
+  for (const part of parts.slice(0, -1)) {
+    node = node[part] as Record<string, unknown>;
+  }
+  node[parts[parts.length - 1]] = value;
+}
@@ -0,0 +1,200 @@
+/**
+ * Minimal RFC 6265 cookie jar for the direct HTTP client.
+ * Keeps cookies scoped by domain and path, honours Expires/Max-Age and
+ * produces the Cookie header for each outgoing request in the session.
+ */
+
+export interface StoredCookie {
+  name: string;
+  value: string;
+  domain: string;
+  path: string;
+  hostOnly: boolean; // true when the server did not send a Domain attribute
+  secure: boolean;
+  httpOnly: boolean;
+  expiresAt: number | null; // epoch ms, null for session cookies
+  createdAt: number;
+}
+
+export class CookieJar {
+  private cookies = new Map<string, StoredCookie>();
+
+  /**
+   * Store every Set-Cookie header of a response.
+   * Uses getSetCookie() so that multiple headers are not merged on commas,
+   * which would break cookies whose Expires date contains a comma.
+   */
+  storeFromResponse(response: Response, requestUrl: string): void {
+    for (const header of getSetCookieHeaders(response.headers)) {
+      this.setCookie(header, requestUrl);
+    }
+  }
+
+  setCookie(setCookieHeader: string, requestUrl: string): void {
+    const url = new URL(requestUrl);
+    const cookie = parseSetCookie(setCookieHeader, url);
+    if (!cookie) return;
+
+    const key = cookieKey(cookie);
+
+    // An already expired cookie is the server's way of deleting it
+    if (cookie.expiresAt !== null && cookie.expiresAt <= Date.now()) {
+      this.cookies.delete(key);
+      return;
+    }
+
+    // Keep the original creation time when a cookie is overwritten (RFC 6265 §5.3 step 11)
+    const existing = this.cookies.get(key);
+    if (existing) {
+      cookie.createdAt = existing.createdAt;
+    }
+    this.cookies.set(key, cookie);
+  }
+
+  /**
+   * Build the Cookie header value for a request to the given URL.
+   * Returns an empty string when no cookie applies.
+   */
+  getCookieHeader(requestUrl: string): string {
+    return this.getCookies(requestUrl)
+      .map((cookie) => `${cookie.name}=${cookie.value}`)
+      .join('; ');
+  }
+
+  getCookies(requestUrl: string): StoredCookie[] {
+    const url = new URL(requestUrl);
+    const host = url.hostname.toLowerCase();
+    const now = Date.now();
+    const matching: StoredCookie[] = [];
+
+    for (const [key, cookie] of this.cookies) {
+      if (cookie.expiresAt !== null && cookie.expiresAt <= now) {
+        this.cookies.delete(key);
+        continue;
+      }
+      const domainOk = cookie.hostOnly ? host === cookie.domain : domainMatches(host, cookie.domain);
+      if (!domainOk) continue;
+      if (!pathMatches(url.pathname || '/', cookie.path)) continue;
+      if (cookie.secure && url.protocol !== 'https:') continue;
+      matching.push(cookie);
+    }
+
+    // Longer paths first, then older cookies first (RFC 6265 §5.4 step 2)
+    return matching.sort((a, b) => b.path.length - a.path.length || a.createdAt - b.createdAt);
+  }
+
+  get size(): number {
+    return this.cookies.size;
+  }
+
+  clear(): void {
+    this.cookies.clear();
+  }
+}
+
+function getSetCookieHeaders(headers: Headers): string[] {
+  if (typeof headers.getSetCookie === 'function') {
+    return headers.getSetCookie();
+  }
+  // Older runtimes only expose the merged header
+  const merged = headers.get('set-cookie');
+  return merged ? splitMergedSetCookie(merged) : [];
+}
+
+/**
+ * Split a comma-merged Set-Cookie header without breaking Expires dates.
+ * A comma only starts a new cookie when it is followed by "name=".
+ */
+function splitMergedSetCookie(merged: string): string[] {
+  return merged.split(/,(?=\s*[^;,=\s]+=)/).map((part) => part.trim()).filter(Boolean);
+}
+
+function parseSetCookie(header: string, url: URL): StoredCookie | null {
+  const [nameValue, ...attributeParts] = header.split(';');
+  const separator = nameValue.indexOf('=');
+  if (separator <= 0) return null;
+
+  const name = nameValue.substring(0, separator).trim();
+  const value = nameValue.substring(separator + 1).trim();
+  if (!name) return null;
+
+  const host = url.hostname.toLowerCase();
+  let domain: string | null = null;
+  let path: string | null = null;
+  let expires: number | null = null;
+  let maxAge: number | null = null;
+  let secure = false;
+  let httpOnly = false;
+
+  for (const part of attributeParts) {
+    const eq = part.indexOf('=');
+    const attrName = (eq === -1 ? part : part.substring(0, eq)).trim().toLowerCase();
+    const attrValue = eq === -1 ? '' : part.substring(eq + 1).trim();
+
+    switch (attrName) {
+      case 'domain':
+        if (attrValue) domain = attrValue.replace(/^\./, '').toLowerCase();
+        break;
+      case 'path':
+        if (attrValue.startsWith('/')) path = attrValue;
+        break;
+      case 'expires': {
+        const parsed = Date.parse(attrValue);
+        if (!isNaN(parsed)) expires = parsed;
+        break;
+      }
+      case 'max-age':
+        if (/^-?\d+$/.test(attrValue)) maxAge = parseInt(attrValue, 10);
+        break;
+      case 'secure':
+        secure = true;
+        break;
+      case 'httponly':
+        httpOnly = true;
+        break;
+    }
+  }
+
+  // Reject cookies for a domain the response host does not belong to
+  if (domain && !domainMatches(host, domain)) {
+    return null;
+  }
+
+  // Max-Age wins over Expires when both are present
+  let expiresAt: number | null = expires;
+  if (maxAge !== null) {
+    expiresAt = maxAge <= 0 ? 0 : Date.now() + maxAge * 1000;
+  }
+
+  return {
+    name,
+    value,
+    domain: domain || host,
+    path: path || defaultPath(url.pathname),
+    hostOnly: !domain,
+    secure,
+    httpOnly,
+    expiresAt,
+    createdAt: Date.now(),
+  };
+}
+
+function cookieKey(cookie: StoredCookie): string {
+  return `${cookie.domain};${cookie.path};${cookie.name}`;
+}
+
+function domainMatches(host: string, domain: string): boolean {
+  return host === domain || host.endsWith(`.${domain}`);
+}
+
+function pathMatches(requestPath: string, cookiePath: string): boolean {
+  if (requestPath === cookiePath) return true;
+  if (!requestPath.startsWith(cookiePath)) return false;
+  return cookiePath.endsWith('/') || requestPath.charAt(cookiePath.length) === '/';
+}
+
+function defaultPath(requestPath: string): string {
+  if (!requestPath.startsWith('/')) return '/';
+  const lastSlash = requestPath.lastIndexOf('/');
+  return lastSlash <= 0 ? '/' : requestPath.substring(0, lastSlash);
+}
@@ -0,0 +1,266 @@
+/**
+ * Country names and ISO-3166 codes used to resolve user input against the catalog.
+ * The catalog lists origins mostly in English ("Dominican Republic") with the odd
+ * Spanish entry ("Panamá"); this table lets either language, or a code, find them.
+ * Each entry: [alpha-2, alpha-3, English name, Spanish name, ...aliases]
+ */
+export type CountryEntry = [string, string, string, string, ...string[]];
+
+export const COUNTRIES: CountryEntry[] = [
+  ['AF', 'AFG', 'Afghanistan', 'Afganistán'],
+  ['AL', 'ALB', 'Albania', 'Albania'],
+  ['DZ', 'DZA', 'Algeria', 'Argelia'],
+  ['AS', 'ASM', 'American Samoa', 'Samoa Americana'],
+  ['AD', 'AND', 'Andorra', 'Andorra'],
+  ['AO', 'AGO', 'Angola', 'Angola'],
+  ['AI', 'AIA', 'Anguilla', 'Anguila'],
+  ['AQ', 'ATA', 'Antarctica', 'Antártida'],
+  ['AG', 'ATG', 'Antigua and Barbuda', 'Antigua y Barbuda'],
+  ['AR', 'ARG', 'Argentina', 'Argentina'],
+  ['AM', 'ARM', 'Armenia', 'Armenia'],
+  ['AW', 'ABW', 'Aruba', 'Aruba'],
+  ['AU', 'AUS', 'Australia', 'Australia'],
+  ['AT', 'AUT', 'Austria', 'Austria'],
+  ['AZ', 'AZE', 'Azerbaijan', 'Azerbaiyán'],
+  ['BS', 'BHS', 'Bahamas', 'Bahamas'],
+  ['BH', 'BHR', 'Bahrain', 'Baréin', 'Bahréin'],
+  ['BD', 'BGD', 'Bangladesh', 'Bangladés'],
+  ['BB', 'BRB', 'Barbados', 'Barbados'],
+  ['BY', 'BLR', 'Belarus', 'Bielorrusia'],
+  ['BE', 'BEL', 'Belgium', 'Bélgica'],
+  ['BZ', 'BLZ', 'Belize', 'Belice'],
+  ['BJ', 'BEN', 'Benin', 'Benín'],
+  ['BM', 'BMU', 'Bermuda Islands', 'Bermudas', 'Bermuda'],
+  ['BT', 'BTN', 'Bhutan', 'Bután'],
+  ['BO', 'BOL', 'Bolivia', 'Bolivia'],
+  ['BA', 'BIH', 'Bosnia and Herzegovina', 'Bosnia y Herzegovina'],
+  ['BW', 'BWA', 'Botswana', 'Botsuana'],
+  ['BV', 'BVT', 'Bouvet Island', 'Isla Bouvet'],
+  ['BR', 'BRA', 'Brazil', 'Brasil'],
+  ['IO', 'IOT', 'British Indian Ocean Territory', 'Territorio Británico del Océano Índico'],
+  ['VG', 'VGB', 'British Virgin Islands', 'Islas Vírgenes Británicas'],
+  ['BN', 'BRN', 'Brunei Darussalam', 'Brunéi', 'Brunei'],
+  ['BG', 'BGR', 'Bulgaria', 'Bulgaria'],
+  ['BF', 'BFA', 'Burkina Faso', 'Burkina Faso'],
+  ['BI', 'BDI', 'Burundi', 'Burundi'],
+  ['CV', 'CPV', 'Cabo Verde', 'Cabo Verde', 'Cape Verde'],
+  ['KH', 'KHM', 'Cambodia', 'Camboya'],
+  ['CM', 'CMR', 'Cameroon', 'Camerún'],
+  ['CA', 'CAN', 'Canada', 'Canadá'],
+  ['KY', 'CYM', 'Cayman Islands', 'Islas Caimán'],
+  ['CF', 'CAF', 'Central African Republic', 'República Centroafricana'],
+  ['TD', 'TCD', 'Chad', 'Chad'],
+  ['CL', 'CHL', 'Chile', 'Chile'],
+  ['CN', 'CHN', 'China', 'China'],
+  ['CX', 'CXR', 'Christmas Island', 'Isla de Navidad'],
+  ['CC', 'CCK', 'Cocos (Keeling) Islands', 'Islas Cocos'],
+  ['CO', 'COL', 'Colombia', 'Colombia'],
+  ['KM', 'COM', 'Comoros', 'Comoras'],
+  ['CG', 'COG', 'Congo', 'Congo', 'República del Congo'],
+  ['CK', 'COK', 'Cook Islands', 'Islas Cook'],
+  ['CR', 'CRI', 'Costa Rica', 'Costa Rica'],
+  ['HR', 'HRV', 'Croatia', 'Croacia', 'Hrvatska'],
+  ['CU', 'CUB', 'Cuba', 'Cuba'],
+  ['CW', 'CUW', 'Curaçao', 'Curazao'],
+  ['CY', 'CYP', 'Cyprus', 'Chipre'],
+  ['CZ', 'CZE', 'Czech Republic', 'República Checa', 'Czechia', 'Chequia'],
+  ['CD', 'COD', 'Democratic Republic of the Congo', 'República Democrática del Congo'],
+  ['DK', 'DNK', 'Denmark', 'Dinamarca'],
+  ['DJ', 'DJI', 'Djibouti', 'Yibuti'],
+  ['DM', 'DMA', 'Dominica', 'Dominica'],
+  ['DO', 'DOM', 'Dominican Republic', 'República Dominicana'],
+  ['TL', 'TLS', 'East Timor', 'Timor Oriental', 'Timor-Leste'],
+  ['EC', 'ECU', 'Ecuador', 'Ecuador'],
+  ['EG', 'EGY', 'Egypt', 'Egipto'],
+  ['SV', 'SLV', 'El Salvador', 'El Salvador'],
+  ['GQ', 'GNQ', 'Equatorial Guinea', 'Guinea Ecuatorial'],
+  ['ER', 'ERI', 'Eritrea', 'Eritrea'],
+  ['EE', 'EST', 'Estonia', 'Estonia'],
+  ['SZ', 'SWZ', 'Eswatini', 'Esuatini', 'Swaziland', 'Suazilandia'],
+  ['ET', 'ETH', 'Ethiopia', 'Etiopía'],
+  ['FK', 'FLK', 'Falkland Islands', 'Islas Malvinas'],
+  ['FO', 'FRO', 'Faroe Islands', 'Islas Feroe'],
+  ['FM', 'FSM', 'Federated States of Micronesia', 'Micronesia'],
+  ['FJ', 'FJI', 'Fiji', 'Fiyi'],
+  ['FI', 'FIN', 'Finland', 'Finlandia'],
+  ['FR', 'FRA', 'France', 'Francia'],
+  ['GF', 'GUF', 'French Guiana', 'Guayana Francesa'],
+  ['PF', 'PYF', 'French Polynesia', 'Polinesia Francesa'],
+  ['GA', 'GAB', 'Gabon', 'Gabón'],
+  ['GM', 'GMB', 'Gambia', 'Gambia'],
+  ['GE', 'GEO', 'Georgia', 'Georgia'],
+  ['DE', 'DEU', 'Germany', 'Alemania'],
+  ['GH', 'GHA', 'Ghana', 'Ghana'],
+  ['GI', 'GIB', 'Gibraltar', 'Gibraltar'],
+  ['GB', 'GBR', 'United Kingdom', 'Reino Unido', 'Great Britain', 'Gran Bretaña', 'UK', 'Inglaterra', 'England'],
+  ['GR', 'GRC', 'Greece', 'Grecia'],
+  ['GL', 'GRL', 'Greenland', 'Groenlandia'],
+  ['GD', 'GRD', 'Grenada', 'Granada'],
+  ['GP', 'GLP', 'Guadeloupe', 'Guadalupe'],
+  ['GU', 'GUM', 'Guam', 'Guam'],
+  ['GT', 'GTM', 'Guatemala', 'Guatemala'],
+  ['GN', 'GIN', 'Guinea', 'Guinea'],
+  ['GW', 'GNB', 'Guinea-Bissau', 'Guinea-Bisáu'],
+  ['GY', 'GUY', 'Guyana', 'Guyana'],
+  ['HT', 'HTI', 'Haiti', 'Haití'],
+  ['HM', 'HMD', 'Heard and McDonald Islands', 'Islas Heard y McDonald'],
+  ['VA', 'VAT', 'Holy See', 'Santa Sede', 'Vatican City State', 'Vaticano', 'Ciudad del Vaticano'],
+  ['HN', 'HND', 'Honduras', 'Honduras'],
+  ['HK', 'HKG', 'Hong Kong', 'Hong Kong'],
+  ['HU', 'HUN', 'Hungary', 'Hungría'],
+  ['IS', 'ISL', 'Iceland', 'Islandia'],
+  ['IN', 'IND', 'India', 'India'],
+  ['ID', 'IDN', 'Indonesia', 'Indonesia'],
+  ['IR', 'IRN', 'Iran', 'Irán'],
+  ['IQ', 'IRQ', 'Iraq', 'Irak'],
+  ['IE', 'IRL', 'Ireland', 'Irlanda'],
+  ['IM', 'IMN', 'Isle of Man', 'Isla de Man'],
+  ['IL', 'ISR', 'Israel', 'Israel'],
+  ['IT', 'ITA', 'Italy', 'Italia'],
+  ['CI', 'CIV', 'Ivory Coast', 'Costa de Marfil', "Côte d'Ivoire"],
+  ['JM', 'JAM', 'Jamaica', 'Jamaica'],
+  ['JP', 'JPN', 'Japan', 'Japón'],
+  ['JE', 'JEY', 'Jersey', 'Jersey'],
+  ['JO', 'JOR', 'Jordan', 'Jordania'],
+  ['KZ', 'KAZ', 'Kazakhstan', 'Kazajistán'],
+  ['KE', 'KEN', 'Kenya', 'Kenia'],
+  ['KI', 'KIR', 'Kiribati', 'Kiribati'],
+  ['KW', 'KWT', 'Kuwait', 'Kuwait'],
+  ['KG', 'KGZ', 'Kyrgyzstan', 'Kirguistán'],
+  ['LA', 'LAO', 'Laos', 'Laos'],
+  ['LV', 'LVA', 'Latvia', 'Letonia'],
+  ['LB', 'LBN', 'Lebanon', 'Líbano'],
+  ['LS', 'LSO', 'Lesotho', 'Lesoto'],
+  ['LR', 'LBR', 'Liberia', 'Liberia'],
+  ['LY', 'LBY', 'Libya', 'Libia'],
+  ['LI', 'LIE', 'Liechtenstein', 'Liechtenstein'],
+  ['LT', 'LTU', 'Lithuania', 'Lituania'],
+  ['LU', 'LUX', 'Luxembourg', 'Luxemburgo'],
+  ['MO', 'MAC', 'Macao', 'Macao', 'Macau'],
+  ['MG', 'MDG', 'Madagascar', 'Madagascar'],
+  ['MW', 'MWI', 'Malawi', 'Malaui'],
+  ['MY', 'MYS', 'Malaysia', 'Malasia'],
+  ['MV', 'MDV', 'Maldives', 'Maldivas'],
+  ['ML', 'MLI', 'Mali', 'Malí'],
+  ['MT', 'MLT', 'Malta', 'Malta'],
+  ['MH', 'MHL', 'Marshall Islands', 'Islas Marshall'],
+  ['MQ', 'MTQ', 'Martinique', 'Martinica'],
+  ['MR', 'MRT', 'Mauritania', 'Mauritania'],
+  ['MU', 'MUS', 'Mauritius', 'Mauricio'],
+  ['YT', 'MYT', 'Mayotte', 'Mayotte'],
+  ['MX', 'MEX', 'Mexico', 'México'],
+  ['MD', 'MDA', 'Moldova', 'Moldavia'],
+  ['MC', 'MCO', 'Monaco', 'Mónaco'],
+  ['MN', 'MNG', 'Mongolia', 'Mongolia'],
+  ['ME', 'MNE', 'Montenegro', 'Montenegro'],
+  ['MS', 'MSR', 'Montserrat', 'Montserrat'],
+  ['MA', 'MAR', 'Morocco', 'Marruecos'],
+  ['MZ', 'MOZ', 'Mozambique', 'Mozambique'],
+  ['MM', 'MMR', 'Myanmar', 'Birmania', 'Burma'],
+  ['NA', 'NAM', 'Namibia', 'Namibia'],
+  ['NR', 'NRU', 'Nauru', 'Nauru'],
+  ['NP', 'NPL', 'Nepal', 'Nepal'],
+  ['NL', 'NLD', 'Netherlands', 'Países Bajos', 'Holanda', 'Holland'],
+  ['AN', 'ANT', 'Netherlands Antilles', 'Antillas Neerlandesas', 'Antillas Holandesas'],
+  ['NC', 'NCL', 'New Caledonia', 'Nueva Caledonia'],
+  ['NZ', 'NZL', 'New Zealand', 'Nueva Zelanda', 'Aotearoa'],
+  ['NI', 'NIC', 'Nicaragua', 'Nicaragua'],
+  ['NE', 'NER', 'Niger', 'Níger'],
+  ['NG', 'NGA', 'Nigeria', 'Nigeria'],
+  ['NU', 'NIU', 'Niue', 'Niue'],
+  ['NF', 'NFK', 'Norfolk Island', 'Isla Norfolk'],
+  ['KP', 'PRK', 'North Korea', 'Corea del Norte'],
+  ['MK', 'MKD', 'North Macedonia', 'Macedonia del Norte', 'Macedonia'],
+  ['MP', 'MNP', 'Northern Mariana Islands', 'Islas Marianas del Norte'],
+  ['NO', 'NOR', 'Norway', 'Noruega'],
+  ['OM', 'OMN', 'Oman', 'Omán'],
+  ['PK', 'PAK', 'Pakistan', 'Pakistán'],
+  ['PW', 'PLW', 'Palau', 'Palaos'],
+  ['PS', 'PSE', 'Palestinian Territory', 'Palestina', 'Palestine'],
+  ['PA', 'PAN', 'Panama', 'Panamá'],
+  ['PG', 'PNG', 'Papua New Guinea', 'Papúa Nueva Guinea'],
+  ['PY', 'PRY', 'Paraguay', 'Paraguay'],
+  ['PE', 'PER', 'Peru', 'Perú'],
+  ['PH', 'PHL', 'Philippines', 'Filipinas'],
+  ['PN', 'PCN', 'Pitcairn', 'Islas Pitcairn'],
+  ['PL', 'POL', 'Poland', 'Polonia'],
+  ['PT', 'PRT', 'Portugal', 'Portugal'],
+  ['PR', 'PRI', 'Puerto Rico', 'Puerto Rico'],
+  ['QA', 'QAT', 'Qatar', 'Catar'],
+  ['RE', 'REU', 'Reunion', 'Reunión'],
+  ['RO', 'ROU', 'Romania', 'Rumania', 'Rumanía'],
+  ['RU', 'RUS', 'Russian Federation', 'Rusia', 'Russia'],
+  ['RW', 'RWA', 'Rwanda', 'Ruanda'],
+  ['GS', 'SGS', 'S. Georgia and S. Sandwich Islands', 'Islas Georgias del Sur y Sandwich del Sur', 'South Georgia and the South Sandwich Islands'],
+  ['SH', 'SHN', 'Saint Helena', 'Santa Elena'],
+  ['KN', 'KNA', 'Saint Kitts and Nevis', 'San Cristóbal y Nieves'],
+  ['LC', 'LCA', 'Saint Lucia', 'Santa Lucía'],
+  ['MF', 'MAF', 'Saint Martin', 'San Martín'],
+  ['PM', 'SPM', 'Saint Pierre and Miquelon', 'San Pedro y Miquelón'],
+  ['VC', 'VCT', 'Saint Vincent and the Grenadines', 'San Vicente y las Granadinas'],
+  ['WS', 'WSM', 'Samoa', 'Samoa'],
+  ['SM', 'SMR', 'San Marino', 'San Marino'],
+  ['ST', 'STP', 'Sao Tome and Principe', 'Santo Tomé y Príncipe'],
+  ['SA', 'SAU', 'Saudi Arabia', 'Arabia Saudita', 'Arabia Saudí'],
+  ['SN', 'SEN', 'Senegal', 'Senegal'],
+  ['RS', 'SRB', 'Serbia', 'Serbia'],
+  ['SC', 'SYC', 'Seychelles', 'Seychelles'],
+  ['SL', 'SLE', 'Sierra Leone', 'Sierra Leona'],
+  ['SG', 'SGP', 'Singapore', 'Singapur'],
+  ['SK', 'SVK', 'Slovakia', 'Eslovaquia'],
+  ['SI', 'SVN', 'Slovenia', 'Eslovenia'],
+  ['SB', 'SLB', 'Solomon Islands', 'Islas Salomón'],
+  ['SO', 'SOM', 'Somalia', 'Somalia'],
+  ['ZA', 'ZAF', 'South Africa', 'Sudáfrica'],
+  ['KR', 'KOR', 'South Korea', 'Corea del Sur'],
+  ['SS', 'SSD', 'South Sudan', 'Sudán del Sur'],
+  ['TF', 'ATF', 'Southern French Territories', 'Territorios Australes Franceses', 'French Southern Territories'],
+  ['ES', 'ESP', 'Spain', 'España'],
+  ['LK', 'LKA', 'Sri Lanka', 'Sri Lanka'],
+  ['SD', 'SDN', 'Sudan', 'Sudán'],
+  ['SR', 'SUR', 'Suriname', 'Surinam'],
+  ['SJ', 'SJM', 'Svalbard and Jan Mayen', 'Svalbard y Jan Mayen'],
+  ['SE', 'SWE', 'Sweden', 'Suecia'],
+  ['CH', 'CHE', 'Switzerland', 'Suiza'],
+  ['SY', 'SYR', 'Syria', 'Siria'],
+  ['TW', 'TWN', 'Taiwan', 'Taiwán'],
+  ['TJ', 'TJK', 'Tajikistan', 'Tayikistán'],
+  ['TZ', 'TZA', 'Tanzania', 'Tanzania'],
+  ['TH', 'THA', 'Thailand', 'Tailandia'],
+  ['TG', 'TGO', 'Togo', 'Togo'],
+  ['TK', 'TKL', 'Tokelau', 'Tokelau'],
+  ['TO', 'TON', 'Tonga', 'Tonga'],
+  ['TT', 'TTO', 'Trinidad and Tobago', 'Trinidad y Tobago'],
+  ['TN', 'TUN', 'Tunisia', 'Túnez'],
+  ['TR', 'TUR', 'Turkey', 'Turquía', 'Türkiye'],
+  ['TM', 'TKM', 'Turkmenistan', 'Turkmenistán'],
+  ['TC', 'TCA', 'Turks and Caicos Islands', 'Islas Turcas y Caicos'],
+  ['TV', 'TUV', 'Tuvalu', 'Tuvalu'],
+  ['UG', 'UGA', 'Uganda', 'Uganda'],
+  ['UA', 'UKR', 'Ukraine', 'Ucrania'],
+  ['AE', 'ARE', 'United Arab Emirates', 'Emiratos Árabes Unidos', 'UAE', 'EAU'],
+  ['UM', 'UMI', 'United States Minor Outlying Islands', 'Islas Ultramarinas Menores de Estados Unidos'],
+  ['US', 'USA', 'United States of America', 'Estados Unidos', 'United States', 'EEUU', 'EE.UU.', 'Estados Unidos de América'],
+  ['VI', 'VIR', 'United States Virgin Islands', 'Islas Vírgenes de los Estados Unidos'],
+  ['UY', 'URY', 'Uruguay', 'Uruguay'],
+  ['UZ', 'UZB', 'Uzbekistan', 'Uzbekistán'],
+  ['VU', 'VUT', 'Vanuatu', 'Vanuatu'],
+  ['VE', 'VEN', 'Venezuela', 'Venezuela'],
+  ['VN', 'VNM', 'Vietnam', 'Vietnam'],
+  ['WF', 'WLF', 'Wallis and Futuna', 'Wallis y Futuna'],
+  ['EH', 'ESH', 'Western Sahara', 'Sahara Occidental'],
+  ['YE', 'YEM', 'Yemen', 'Yemen'],
+  ['ZM', 'ZMB', 'Zambia', 'Zambia'],
+  ['ZW', 'ZWE', 'Zimbabwe', 'Zimbabue'],
+];
+
+/**
+ * Alternative names for the destination regions and trip types Mercantil offers
+ */
+export const CATALOG_ALIASES: { [text: string]: string[] } = {
+  'Europa': ['Europe', 'Schengen'],
+  'Resto del Mundo': ['Rest of the World', 'Rest of World', 'Resto del mundo', 'Mundo'],
+  'Mundial': ['Worldwide', 'World', 'Global'],
+  'Viajes Por Día': ['Por Día', 'Diario', 'Daily', 'Single Trip', 'Viaje Único'],
+  'Anual Multiviaje': ['Viajes Anuales', 'Anual', 'Annual', 'Multiviaje', 'Multi Trip', 'Annual Multi Trip'],
+};
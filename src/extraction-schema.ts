@@ -0,0 +1,83 @@
+/**
+ * Declarative description of where data lives in Mercantil's quote result HTML.
+ * Both the HTTP client and the Playwright bot extract plans with this schema,
+ * so a markup change only needs to be fixed here. Bump `version` whenever a
+ * selector changes so stored results can be traced to the schema that produced them.
+ */
+
+export interface FieldSelector {
+  selector: string; // CSS selector, relative to the plan card
+  attribute?: string; // Read this attribute instead of the text content
+}
+
+export interface FieldSpec {
+  description: string; // Used in error messages, e.g. "el precio del plan"
+  candidates: FieldSelector[]; // Tried in order until one yields a value
+  required: boolean;
+}
+
+export interface QuoteExtractionSchema {
+  version: number;
+  planCard: FieldSpec; // Container of a single plan
+  fields: {
+    planId: FieldSpec;
+    name: FieldSpec;
+    price: FieldSpec;
+  };
+  noResults: {
+    selector: string;
+    text: string; // Present when Mercantil legitimately has no plans for the search
+  };
+  benefits: {
+    table: string; // Comparison tables with one column per plan
+    row: string;
+    cell: string;
+    cardItem: string; // "Benefit: value" items inside a plan card
+  };
+}
+
+export const QUOTE_EXTRACTION_SCHEMA: QuoteExtractionSchema = {
+  version: 2,
+  planCard: {
+    description: 'la tarjeta del plan',
+    candidates: [{ selector: '.item-block' }],
+    required: true,
+  },
+  fields: {
+    planId: {
+      description: 'el ID del plan',
+      candidates: [
+        { selector: 'form[name="select-plan"]', attribute: 'id' },
+        { selector: 'form[id^="D-"]', attribute: 'id' },
+      ],
+      required: true,
+    },
+    name: {
+      description: 'el nombre del plan',
+      candidates: [
+        { selector: 'h3.font-weight-bold' },
+        { selector: 'h3' },
+      ],
+      required: true,
+    },
+    price: {
+      description: 'el precio del plan',
+      candidates: [
+        { selector: 'p.text-color-light.opacity-7.mb-4' },
+        { selector: 'p.opacity-7.mb-4' },
+        { selector: 'p.opacity-7' },
+      ],
+      required: true,
+    },
+  },
+  noResults: {
+    selector: '.section-title-p',
+    text: 'No existen resultados',
+  },
+  benefits: {
+    table: 'table',
+    row: 'tr',
+    cell: 'th, td',
+    cardItem: 'li',
+  },
+};
@@ -0,0 +1,598 @@
+import * as http from 'http';
+import * as path from 'path';
+import * as fs from 'fs';
+import { AddressInfo } from 'net';
+import { randomBytes } from 'crypto';
+import { loadCatalogData } from './catalog';
+import { getAppConfig, QUOTE_PATH, SELECTORS } from './config';
+import { countTripDays } from './plan-comparison';
+import { CatalogData, CatalogOption } from './types';
+
+/**
+ * Local stand-in for www1.mercantilseguros.com, for working without network access.
+ *
+ * Serves the MRP022052 quote page (same form ids as SELECTORS and the catalog as
+ * <option>s), the /quotation AJAX endpoint returning { html, url }, the result page
+ * and the buy/step-one purchase page. Plans, prices, riders and purchase fields come
+ * from the JSON files in fixtures/mercantil. Start it and set
+ * MERCANTIL_BASE_URL=http://127.0.0.1:<port> (or baseUrl in the config file) to point the whole app at it.
+ */
+
+export interface FakePlanFixture {
+  id: string; // D-xx; the purchase page uses M-xx
+  title: string;
+  coverage: number;
+  dailyRate?: number; // Per passenger and day, for daily trip types
+  annualRate?: number; // Per passenger, for annual trip types
+  destinations?: string[]; // Destination values the plan is offered for; all when missing
+  benefits: { [name: string]: string };
+  riders: Array<{ id: string; name: string; premium: number }>; // Premium per passenger
+}
+
+export interface FakePlansFixture {
+  currency: string;
+  noResultOrigins: string[]; // Origin values that get "No existen resultados"
+  ageFactors: Array<{ maxAge: number; factor: number }>;
+  plans: { [tripTypeValue: string]: FakePlanFixture[] };
+}
+
+export interface FakeFieldFixture {
+  name: string;
+  label: string;
+  type: string; // Input type, or select / textarea / country
+  required: boolean;
+  placeholder?: string;
+  options?: CatalogOption[];
+}
+
+export interface FakePurchaseFormFixture {
+  passengerFields: FakeFieldFixture[];
+  contactFields: FakeFieldFixture[];
+}
+
+export interface FakeServerOptions {
+  fixturesDir?: string;
+  catalog?: CatalogData;
+}
+
+interface FakeQuote {
+  uuid: string;
+  searchId: string;
+  product: string;
+  origin: string;
+  destination: string;
+  agent: string;
+  dateFrom: string; // YYYY-MM-DD
+  dateTo: string;
+  days: number;
+  ages: number[];
+  plans: Array<{ plan: FakePlanFixture; factors: number[]; premiumMinor: number }>;
+}
+
+const SESSION_COOKIE = 'PHPSESSID';
+const MAX_PASSENGERS = 10;
+const DEFAULT_PORT = 4010;
+const NO_RESULTS_TEXT = 'No existen resultados para su búsqueda';
+
+export class FakeMercantilServer {
+  private server: http.Server | null = null;
+  private catalog: CatalogData;
+  private plansFixture: FakePlansFixture;
+  private purchaseFixture: FakePurchaseFormFixture;
+  // Session id -> CSRF token issued with the quote page; each quotation spends it
+  private sessions = new Map<string, string>();
+  private quotes = new Map<string, FakeQuote>();
+
+  constructor(options: FakeServerOptions = {}) {
+    const fixturesDir = options.fixturesDir || path.join(process.cwd(), 'fixtures', 'mercantil');
+    this.catalog = options.catalog || loadCatalogData();
+    this.plansFixture = JSON.parse(fs.readFileSync(path.join(fixturesDir, 'plans.json'), 'utf-8'));
+    this.purchaseFixture = JSON.parse(fs.readFileSync(path.join(fixturesDir, 'purchase-form.json'), 'utf-8'));
+  }
+
+  /**
+   * Listen on 127.0.0.1 and return the base URL to use as MERCANTIL_BASE_URL.
+   * Port 0 picks a free port.
+   */
+  async start(port: number = DEFAULT_PORT): Promise<string> {
+    const server = http.createServer((req, res) => {
+      this.handle(req, res).catch((error) => {
+        console.error('❌ Error en el servidor de prueba:', error);
+        this.send(res, 500, 'text/html; charset=utf-8', renderPage('Error', '<p>Error interno</p>'));
+      });
+    });
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, '127.0.0.1', () => resolve());
+    });
+    this.server = server;
+    return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    this.server = null;
+    if (server) {
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const method = req.method || 'GET';
+    const pathname = url.pathname.replace(/\/+$/, '');
+    const baseUrl = `http://${req.headers.host || '127.0.0.1'}`;
+
+    if (method === 'GET' && (pathname === '' || pathname === QUOTE_PATH)) {
+      if (pathname === '') {
+        res.writeHead(302, { Location: QUOTE_PATH });
+        res.end();
+        return;
+      }
+      return this.serveQuotePage(req, res);
+    }
+
+    if (method === 'POST' && pathname === `${QUOTE_PATH}/quotation`) {
+      return this.serveQuotation(req, res, await readForm(req), baseUrl);
+    }
+
+    const match = pathname.match(new RegExp(`^${QUOTE_PATH}/quotation/([a-f0-9]+)(?:/(M-[\\w-]+)/buy/(step-one|step-two))?$`));
+    const quote = match ? this.quotes.get(match[1]) : undefined;
+    if (match && quote) {
+      if (!match[2] && method === 'GET') {
+        return this.send(res, 200, 'text/html; charset=utf-8', renderPage('Cotizar Seguro de Viaje', this.renderResult(quote)));
+      }
+      const planId = match[2] ? match[2].replace(/^M-/, 'D-') : '';
+      const quotedPlan = quote.plans.find((entry) => entry.plan.id === planId);
+      if (quotedPlan && match[3] === 'step-one' && method === 'GET') {
+        return this.send(res, 200, 'text/html; charset=utf-8', renderPage('Comprar', this.renderPurchasePage(quote, quotedPlan)));
+      }
+      if (quotedPlan && match[3] === 'step-two' && method === 'POST') {
+        const form = await readForm(req);
+        return this.send(res, 200, 'text/html; charset=utf-8', renderPage('Comprar',
+          `<div class="container"><h1 class="font-weight-bold">Solicitud recibida</h1>` +
+          `<p>Plan ${escapeHtml(quotedPlan.plan.title)}: ${Array.from(form.keys()).length} campos recibidos.</p></div>`));
+      }
+    }
+
+    this.send(res, 404, 'text/html; charset=utf-8', renderPage('No encontrado', '<p>Página no encontrada</p>'));
+  }
+
+  private serveQuotePage(req: http.IncomingMessage, res: http.ServerResponse): void {
+    let sessionId = readCookie(req, SESSION_COOKIE);
+    if (!sessionId || !this.sessions.has(sessionId)) {
+      sessionId = randomBytes(16).toString('hex');
+      this.sessions.set(sessionId, randomBytes(20).toString('hex'));
+      res.setHeader('Set-Cookie', `${SESSION_COOKIE}=${sessionId}; Path=/; HttpOnly`);
+    }
+    this.send(res, 200, 'text/html; charset=utf-8', renderPage('Cotizar Seguro de Viaje', this.renderQuoteForm(this.sessions.get(sessionId)!)));
+  }
+
+  private serveQuotation(req: http.IncomingMessage, res: http.ServerResponse, form: URLSearchParams, baseUrl: string): void {
+    const sessionId = readCookie(req, SESSION_COOKIE);
+    const token = sessionId ? this.sessions.get(sessionId) : undefined;
+    if (!token || form.get('websitebundle_quotation_search[_token]') !== token) {
+      return this.sendJson(res, 403, { error: 'Sesión inválida o expirada' });
+    }
+
+    // Single-use, so a client that posts a stale token is caught
+    this.sessions.set(sessionId!, randomBytes(20).toString('hex'));
+
+    const field = (name: string) => (form.get(`websitebundle_quotation_search[${name}]`) || '').trim();
+    const product = field('product');
+    const origin = field('origin');
+    const destination = field('destination');
+    const agent = field('agent');
+    const dateFrom = field('date_from');
+    const dateTo = field('date_to');
+    const passengers = parseInt(form.get('selector-passenger-count') || '', 10);
+    const ages = Array.from({ length: passengers > 0 ? passengers : 0 }, (_, index) =>
+      parseInt(form.get(`passengers-age[${index}]`) || '', 10)
+    );
+    const days = countTripDays(toDayMonthYear(dateFrom), toDayMonthYear(dateTo));
+
+    const errors: string[] = [];
+    if (!this.catalog.tripTypes.some((option) => option.value === product)) errors.push('Tipo de plan inválido');
+    if (!this.catalog.origins.some((option) => option.value === origin)) errors.push('Origen inválido');
+    if (!(this.catalog.destinations[product] || []).some((option) => option.value === destination)) errors.push('Destino inválido');
+    if (!this.catalog.agents.some((option) => option.value === agent)) errors.push('Agente inválido');
+    if (days === null) errors.push('Rango de fechas inválido');
+    if (!(passengers >= 1 && passengers <= MAX_PASSENGERS)) errors.push('Cantidad de pasajeros inválida');
+    if (ages.some((age) => isNaN(age) || this.ageFactor(age) === null)) errors.push('Edad fuera de rango');
+    if (errors.length > 0) {
+      return this.sendJson(res, 422, { error: errors.join('; ') });
+    }
+
+    const quote: FakeQuote = {
+      uuid: randomBytes(16).toString('hex'),
+      searchId: String(100000 + this.quotes.size),
+      product,
+      origin,
+      destination,
+      agent,
+      dateFrom,
+      dateTo,
+      days: days!,
+      ages,
+      plans: this.plansFixture.noResultOrigins.includes(origin) ? [] : this.priceQuote(product, destination, days!, ages),
+    };
+    this.quotes.set(quote.uuid, quote);
+    console.log(`🧪 Cotización ${quote.uuid}: ${quote.plans.length} planes`);
+
+    this.sendJson(res, 200, { html: this.renderResult(quote), url: `${baseUrl}${QUOTE_PATH}/quotation/${quote.uuid}` });
+  }
+
+  private priceQuote(product: string, destination: string, days: number, ages: number[]): FakeQuote['plans'] {
+    return (this.plansFixture.plans[product] || [])
+      .filter((plan) => !plan.destinations || plan.destinations.includes(destination))
+      .map((plan) => {
+        const factors = ages.map((age) => this.ageFactor(age)!);
+        const baseMinor = plan.annualRate !== undefined
+          ? Math.round(plan.annualRate * 100)
+          : Math.round((plan.dailyRate || 0) * 100) * days;
+        const premiumMinor = factors.reduce((sum, factor) => sum + Math.round(baseMinor * factor), 0);
+        return { plan, factors, premiumMinor };
+      });
+  }
+
+  private ageFactor(age: number): number | null {
+    if (age < 0) return null;
+    const band = this.plansFixture.ageFactors.find((entry) => age <= entry.maxAge);
+    return band ? band.factor : null;
+  }
+
+  private renderQuoteForm(token: string): string {
+    const destinationFilters = new Map<string, { option: CatalogOption; filters: string[] }>();
+    for (const [tripType, options] of Object.entries(this.catalog.destinations)) {
+      for (const option of options) {
+        const entry = destinationFilters.get(option.value) || { option, filters: [] };
+        entry.filters.push(tripType);
+        destinationFilters.set(option.value, entry);
+      }
+    }
+    const destinationOptions = Array.from(destinationFilters.values())
+      .map(({ option, filters }) => `<option value="${escapeHtml(option.value)}" data-filter="${escapeHtml(filters.join(','))}">${escapeHtml(option.text)}</option>`)
+      .join('');
+    const { defaultAgent } = getAppConfig();
+    const agent = this.catalog.agents.some((option) => option.value === defaultAgent) ? defaultAgent : undefined;
+    const ageInputs = Array.from({ length: MAX_PASSENGERS }, (_, index) =>
+      `<div class="form-group passenger-age"${index > 0 ? ' style="display: none;"' : ''}>` +
+      `<label for="passengers-age[${index}]">Edad pasajero ${index + 1}</label>` +
+      `<input type="number" min="0" class="form-control" id="passengers-age[${index}]" name="passengers-age[${index}]"${index > 0 ? ' disabled' : ''}>` +
+      `</div>`
+    ).join('');
+
+    return `
+<section class="page-header"><div class="container"><h1 class="font-weight-bold">Cotizar Seguro de Viaje</h1></div></section>
+<div class="container">
+  <form id="form-quotation-search" name="websitebundle_quotation_search" method="post" action="${QUOTE_PATH}/quotation">
+    <input type="hidden" id="websitebundle_quotation_search_uuid" name="websitebundle_quotation_search[uuid]" value="">
+    <input type="hidden" id="websitebundle_quotation_search__token" name="websitebundle_quotation_search[_token]" value="${token}">
+    <input type="hidden" id="websitebundle_quotation_search_date_from" name="websitebundle_quotation_search[date_from]" value="">
+    <input type="hidden" id="websitebundle_quotation_search_date_to" name="websitebundle_quotation_search[date_to]" value="">
+    ${renderSelect(SELECTORS.tripType, 'Tipo de Plan', 'websitebundle_quotation_search[product]', renderOptions(this.catalog.tripTypes))}
+    ${renderSelect(SELECTORS.origin, 'Origen', 'websitebundle_quotation_search[origin]', `<option value="">Seleccione</option>${renderOptions(this.catalog.origins)}`)}
+    ${renderSelect(SELECTORS.destination, 'Destino', 'websitebundle_quotation_search[destination]', `<option value="">Seleccione</option>${destinationOptions}`)}
+    ${renderSelect(SELECTORS.agent, 'Agente/Agencia', 'websitebundle_quotation_search[agent]', renderOptions(this.catalog.agents, agent))}
+    <div class="form-group">
+      <label for="${idOf(SELECTORS.dateRange)}">Fecha de inicio y fin</label>
+      <input type="text" class="form-control" id="${idOf(SELECTORS.dateRange)}" name="${idOf(SELECTORS.dateRange)}" placeholder="DD/MM/AAAA - DD/MM/AAAA" autocomplete="off">
+    </div>
+    ${renderSelect(SELECTORS.passengerCount, 'Pasajeros', idOf(SELECTORS.passengerCount), Array.from({ length: MAX_PASSENGERS }, (_, index) => `<option value="${index + 1}">${index + 1}</option>`).join(''))}
+    ${ageInputs}
+    <button type="submit" class="btn btn-primary">COTIZAR SEGURO</button>
+  </form>
+</div>
+<div id="quotation-result"></div>
+<div id="loading" style="display: none;"><div></div><p>Cotizando...</p></div>
+<script>${QUOTE_PAGE_SCRIPT}</script>`;
+  }
+
+  private renderResult(quote: FakeQuote): string {
+    const tripType = this.catalog.tripTypes.find((option) => option.value === quote.product);
+    const origin = this.catalog.origins.find((option) => option.value === quote.origin);
+    const destination = (this.catalog.destinations[quote.product] || []).find((option) => option.value === quote.destination);
+    const summary: Array<[string, string]> = [
+      ['Tipo de Plan', tripType?.text || quote.product],
+      ['Pasajeros', String(quote.ages.length)],
+      ['Origen', origin?.text || quote.origin],
+      ['Destino', destination?.text || quote.destination],
+      ['Inicio', toDayMonthYear(quote.dateFrom)],
+      ['Fin', toDayMonthYear(quote.dateTo)],
+    ];
+    const summaryBoxes = summary
+      .map(([label, value]) => `<div class="info-box"><div class="card"><div class="card-body p-5">` +
+        `<h3 class="font-weight-bold mb-0">${escapeHtml(label)}</h3><p class="mb-0">${escapeHtml(value)}</p></div></div></div>`)
+      .join('');
+
+    if (quote.plans.length === 0) {
+      return `<div id="quotation"><div class="row row-inline row-justify">${summaryBoxes}</div>` +
+        `<div class="col-md-12 row-justify" data-plan="true"><div class="section-title" data-plan="true">` +
+        `<p class="section-title-p">${NO_RESULTS_TEXT}</p></div></div></div>`;
+    }
+
+    const { currency } = this.plansFixture;
+    const cards = quote.plans.map(({ plan, premiumMinor }) => `
+      <div class="item-block">
+        <h3 class="font-weight-bold">${escapeHtml(plan.title)}<br><small>${currency} ${formatSpanishAmount(plan.coverage)}</small></h3>
+        <p class="text-color-light opacity-7 mb-4">${currency} ${formatPrice(premiumMinor)}</p>
+        <form name="select-plan" id="${escapeHtml(plan.id)}" method="get" action="${QUOTE_PATH}/quotation/${quote.uuid}/${escapeHtml(toPurchasePlanId(plan.id))}/buy/step-one">
+          <button type="submit" class="btn btn-primary btn-block">COMPRAR</button>
+        </form>
+      </div>`).join('');
+
+    const benefitNames = Array.from(new Set(quote.plans.flatMap(({ plan }) => Object.keys(plan.benefits))));
+    const benefitRows = benefitNames
+      .map((name) => `<tr><th>${escapeHtml(name)}</th>${quote.plans.map(({ plan }) => `<td>${escapeHtml(plan.benefits[name] || '')}</td>`).join('')}</tr>`)
+      .join('');
+
+    return `<div id="quotation">
+  <div class="row row-inline row-justify">${summaryBoxes}
+    <div class="section-title"><p class="section-title-p">Seleccione el plan que se ajuste a sus necesidades</p></div>
+  </div>
+  <div class="col-md-12" id="container-quote"><div class="row">${cards}</div></div>
+  <div class="col-md-12">
+    <table class="table table-benefits">
+      <tr><th>Beneficios</th>${quote.plans.map(({ plan }) => `<th>${escapeHtml(plan.title)}</th>`).join('')}</tr>
+      ${benefitRows}
+    </table>
+  </div>
+</div>`;
+  }
+
+  private renderPurchasePage(quote: FakeQuote, quoted: FakeQuote['plans'][number]): string {
+    const { plan, factors, premiumMinor } = quoted;
+    const annual = plan.annualRate !== undefined;
+    const purchasePlanId = toPurchasePlanId(plan.id);
+    const hidden = (name: string, value: string) => `<input type="hidden" name="${name}" value="${escapeHtml(value)}">`;
+
+    const internalFields = [
+      hidden('website_quotation[id]', quote.uuid),
+      hidden('website_quotation[search_id]', quote.searchId),
+      hidden('website_quotation[date_from]', quote.dateFrom),
+      hidden('website_quotation[date_to]', quote.dateTo),
+      hidden('website_quotation[days]', String(quote.days)),
+      hidden('website_quotation[months]', annual ? '12' : '0'),
+      hidden('website_quotation[passengers]', String(quote.ages.length)),
+      hidden('website_quotation[general_agent]', quote.agent),
+      hidden('website_quotation[product]', quote.product),
+      hidden('website_quotation[origin]', quote.origin),
+      hidden('website_quotation[destination]', quote.destination),
+      hidden('website_quotation[quotes][0][plan][id]', purchasePlanId),
+      hidden('website_quotation[quotes][0][calculate_premium]', '1'),
+    ].join('\n    ');
+
+    const breakdowns = quote.ages.map((age, index) => {
+      const prefix = `website_quotation[quotes][0][breakdowns][${index}]`;
+      const fields = this.purchaseFixture.passengerFields
+        .map((field) => this.renderPurchaseField(field, `${prefix}[passenger][${field.name}]`))
+        .join('');
+      return `
+    <fieldset class="breakdown" id="breakdown-${index}">
+      <legend>Pasajero ${index + 1}</legend>
+      ${hidden(`${prefix}[id]`, String(index + 1))}
+      ${hidden(`${prefix}[factor_main]`, String(factors[index]))}
+      ${hidden(`${prefix}[free_passenger]`, '0')}
+      <div class="form-group"><label for="${fieldId(`${prefix}[passenger][age]`)}">Edad</label>` +
+      `<input type="number" class="form-control" id="${fieldId(`${prefix}[passenger][age]`)}" name="${prefix}[passenger][age]" value="${age}" readonly></div>
+      ${fields}
+    </fieldset>`;
+    }).join('');
+
+    const contactFields = this.purchaseFixture.contactFields
+      .map((field) => this.renderPurchaseField(field, `website_quotation[contact][${field.name}]`))
+      .join('');
+
+    const riders = plan.riders.map((rider) => {
+      const id = `website_quotation_quotes_0_riders_${rider.id}`;
+      const premium = (Math.round(rider.premium * 100) * quote.ages.length) / 100;
+      return `<div class="form-check"><input type="checkbox" class="form-check-input" id="${id}" name="website_quotation[quotes][0][riders][]" value="${escapeHtml(rider.id)}" data-premium="${premium.toFixed(2)}">` +
+        `<label class="form-check-label" for="${id}">${escapeHtml(rider.name)}</label></div>`;
+    }).join('');
+
+    return `
+<section class="page-header"><div class="container"><h1 class="font-weight-bold">${escapeHtml(plan.title)}</h1></div></section>
+<div class="container">
+  <form id="form-buy-step-one" name="website_quotation" method="post" action="${QUOTE_PATH}/quotation/${quote.uuid}/${escapeHtml(purchasePlanId)}/buy/step-two">
+    ${internalFields}
+    ${breakdowns}
+    <fieldset class="contact"><legend>Datos de contacto</legend>${contactFields}</fieldset>
+    ${riders ? `<fieldset class="riders"><legend>Beneficios opcionales</legend>${riders}</fieldset>` : ''}
+    <div class="form-group">
+      <label for="website_quotation_quotes_0_premium">Prima Total a Pagar</label>
+      <input type="text" class="form-control" id="website_quotation_quotes_0_premium" name="website_quotation[quotes][0][premium]" value="${formatPrice(premiumMinor)}" readonly>
+    </div>
+    <button type="submit" class="btn btn-primary">CONTINUAR</button>
+  </form>
+</div>`;
+  }
+
+  private renderPurchaseField(field: FakeFieldFixture, name: string): string {
+    const id = fieldId(name);
+    const attributes = `class="form-control" id="${id}" name="${name}"${field.required ? ' required' : ''}`;
+    let control: string;
+    if (field.type === 'select' || field.type === 'country') {
+      const options = field.type === 'country' ? this.catalog.origins : field.options || [];
+      control = `<select ${attributes}><option value="">Seleccione</option>${renderOptions(options)}</select>`;
+    } else if (field.type === 'textarea') {
+      control = `<textarea ${attributes}></textarea>`;
+    } else {
+      control = `<input type="${field.type}" ${attributes}${field.placeholder ? ` placeholder="${escapeHtml(field.placeholder)}"` : ''}>`;
+    }
+    return `<div class="form-group"><label for="${id}">${escapeHtml(field.label)}</label>${control}</div>`;
+  }
+
+  private send(res: http.ServerResponse, status: number, contentType: string, body: string): void {
+    res.writeHead(status, { 'Content-Type': contentType });
+    res.end(body);
+  }
+
+  private sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+    this.send(res, status, 'application/json', JSON.stringify(body));
+  }
+}
+
+// Filters destinations by trip type, shows one age input per passenger and submits over AJAX like the real page
+const QUOTE_PAGE_SCRIPT = `
+(function () {
+  var form = document.getElementById('form-quotation-search');
+  var product = document.getElementById('${idOf(SELECTORS.tripType)}');
+  var destination = document.getElementById('${idOf(SELECTORS.destination)}');
+  var count = document.getElementById('${idOf(SELECTORS.passengerCount)}');
+  var loading = document.getElementById('loading');
+
+  function filterDestinations() {
+    for (var i = 0; i < destination.options.length; i++) {
+      var option = destination.options[i];
+      var filter = option.getAttribute('data-filter');
+      if (!filter) continue;
+      var visible = filter.split(',').indexOf(product.value) !== -1;
+      option.style.display = visible ? '' : 'none';
+      if (!visible && option.selected) destination.value = '';
+    }
+  }
+
+  function toggleAges() {
+    var passengers = parseInt(count.value, 10) || 1;
+    var groups = document.querySelectorAll('.passenger-age');
+    for (var i = 0; i < groups.length; i++) {
+      groups[i].style.display = i < passengers ? '' : 'none';
+      groups[i].querySelector('input').disabled = i >= passengers;
+    }
+  }
+
+  function toIsoDate(text) {
+    var parts = (text || '').trim().split('/');
+    return parts.length === 3 ? parts[2] + '-' + parts[1] + '-' + parts[0] : '';
+  }
+
+  product.addEventListener('change', filterDestinations);
+  count.addEventListener('change', toggleAges);
+  filterDestinations();
+  toggleAges();
+
+  form.addEventListener('submit', function (event) {
+    event.preventDefault();
+    var range = document.getElementById('${idOf(SELECTORS.dateRange)}').value.split(' - ');
+    document.getElementById('websitebundle_quotation_search_date_from').value = toIsoDate(range[0]);
+    document.getElementById('websitebundle_quotation_search_date_to').value = toIsoDate(range[1]);
+    loading.style.display = 'block';
+
+    var xhr = new XMLHttpRequest();
+    xhr.open('POST', form.action);
+    xhr.setRequestHeader('Content-Type', 'application/x-www-form-urlencoded; charset=UTF-8');
+    xhr.setRequestHeader('X-Requested-With', 'XMLHttpRequest');
+    xhr.onload = function () {
+      loading.style.display = 'none';
+      var data;
+      try { data = JSON.parse(xhr.responseText); } catch (e) { data = { error: 'Respuesta inválida' }; }
+      var result = document.getElementById('quotation-result');
+      if (data.html) {
+        result.innerHTML = data.html;
+        try { history.pushState({}, '', data.url); } catch (e) { /* Different host name than the one in the URL */ }
+      } else {
+        result.textContent = data.error || 'Error al cotizar';
+      }
+    };
+    xhr.send(new URLSearchParams(new FormData(form)).toString());
+  });
+})();`;
+
+function renderPage(title: string, body: string): string {
+  return `<!DOCTYPE html>
+<html lang="es">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)} | Mercantil Seguros (local)</title>
+</head>
+<body>
+<div role="main" class="main">${body}</div>
+</body>
+</html>`;
+}
+
+function renderSelect(selector: string, label: string, name: string, options: string): string {
+  const id = idOf(selector);
+  return `<div class="form-group"><label for="${id}">${escapeHtml(label)}</label><select class="form-control" id="${id}" name="${name}">${options}</select></div>`;
+}
+
+function renderOptions(options: CatalogOption[], selected?: string): string {
+  return options
+    .filter((option) => !option.disabled)
+    .map((option) => `<option value="${escapeHtml(option.value)}"${option.value === selected ? ' selected' : ''}>${escapeHtml(option.text)}</option>`)
+    .join('');
+}
+
+// "#selector-passenger-count" -> "selector-passenger-count"
+function idOf(selector: string): string {
+  return selector.replace(/^#/, '').replace(/\\/g, '');
+}
+
+// Symfony-style id: website_quotation[contact][email] -> website_quotation_contact_email
+function fieldId(name: string): string {
+  return name.replace(/\]\[|\[|\]/g, '_').replace(/_+$/, '');
+}
+
+function toPurchasePlanId(planId: string): string {
+  return planId.replace(/^D-/, 'M-');
+}
+
+function toDayMonthYear(isoDate: string): string {
+  const [year, month, day] = isoDate.split('-');
+  return `${day}/${month}/${year}`;
+}
+
+function formatPrice(minor: number): string {
+  return (minor / 100).toFixed(2);
+}
+
+// 30000 -> "30.000", the way Mercantil prints coverage limits
+function formatSpanishAmount(amount: number): string {
+  return amount.toLocaleString('en-US', { maximumFractionDigits: 0 }).replace(/,/g, '.');
+}
+
+function readCookie(req: http.IncomingMessage, name: string): string | null {
+  for (const part of (req.headers.cookie || '').split(';')) {
+    const [key, ...value] = part.trim().split('=');
+    if (key === name) return value.join('=');
+  }
+  return null;
+}
+
+async function readForm(req: http.IncomingMessage): Promise<URLSearchParams> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  return new URLSearchParams(Buffer.concat(chunks).toString('utf-8'));
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// Run if this file is executed directly
+if (require.main === module) {
+  const args = process.argv.slice(2);
+  const portIndex = args.indexOf('--port');
+  const port = parseInt(portIndex >= 0 ? args[portIndex + 1] : process.env.FAKE_MERCANTIL_PORT || '', 10) || DEFAULT_PORT;
+
+  const server = new FakeMercantilServer();
+  server.start(port)
+    .then((baseUrl) => {
+      console.log(`🧪 Mercantil de prueba escuchando en ${baseUrl}${QUOTE_PATH}`);
+      console.log(`   Use MERCANTIL_BASE_URL=${baseUrl} para apuntar la aplicación a este servidor`);
+      const shutdown = () => { server.stop().then(() => process.exit(0)); };
+      process.on('SIGINT', shutdown);
+      process.on('SIGTERM', shutdown);
+    })
+    .catch((error) => {
+      console.error('💥 Fatal error:', error);
+      process.exitCode = 1;
+    });
+}
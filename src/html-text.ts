@@ -0,0 +1,21 @@
+import { load } from 'cheerio';
+
+/**
+ * Text of an HTML fragment with <br>, <small> and block elements as line breaks.
+ * Parsed with cheerio so every entity is decoded (&aacute;, &ntilde;, &#36;...).
+ * Kept out of ./plan-details, which the UI bundles.
+ */
+export function htmlToText(fragment: string): string {
+  const $ = load(fragment.replace(/\s+/g, ' '), null, false);
+  $('br').replaceWith('\n');
+  $('small').before('\n');
+  $('p, div, h1, h2, h3, h4, h5, h6, li, tr').after('\n');
+
+  return $.root()
+    .text()
+    .replace(/\u00a0/g, ' ') // &nbsp;
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .join('\n');
+}
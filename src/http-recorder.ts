@@ -0,0 +1,144 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import { createHash } from 'crypto';
+import { getAppConfig } from './config';
+import { log } from './logger';
+
+/**
+ * Record/replay layer for MercantilSegurosAPIClient.
+ *
+ * In record mode every exchange (quote page, POST /quotation, purchase pages) goes
+ * to the network as usual and is also saved as a JSON fixture named after a
+ * normalized request signature. In replay mode responses are served from those
+ * fixtures and nothing touches the network, so a recorded quote (e.g. a customer's
+ * broken one) can be reproduced exactly.
+ *
+ * Enabled with recording.mode (MERCANTIL_HTTP_MODE=record|replay); fixtures live in
+ * recording.dir (MERCANTIL_RECORDINGS_DIR, default fixtures/recordings).
+ */
+
+export type HttpRecorderMode = 'record' | 'replay';
+
+export interface RecordedExchange {
+  signature: string;
+  recordedAt: string;
+  request: {
+    method: string;
+    url: string;
+    body: string | null;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    headers: Array<[string, string]>;
+    setCookies: string[];
+    body: string;
+  };
+}
+
+// Session-specific form fields; two requests that differ only in these are the same request
+const VOLATILE_FIELDS = ['websitebundle_quotation_search[_token]', 'websitebundle_quotation_search[uuid]'];
+
+// fetch() already decoded the body, so these would describe the wrong bytes on replay
+const SKIPPED_HEADERS = ['set-cookie', 'content-encoding', 'content-length', 'transfer-encoding'];
+
+const NULL_BODY_STATUSES = [101, 204, 205, 304];
+
+export class HttpRecorder {
+  constructor(
+    public readonly mode: HttpRecorderMode,
+    private recordingsDir: string = getAppConfig().recording.dir
+  ) {}
+
+  /**
+   * Drop-in for fetch(): records the real response or replays a recorded one
+   */
+  async fetch(url: string, init: RequestInit): Promise<Response> {
+    const method = (init.method || 'GET').toUpperCase();
+    const body = typeof init.body === 'string' ? init.body : null;
+    const signature = requestSignature(method, url, body);
+    const filePath = path.join(this.recordingsDir, fixtureFileName(method, url, signature));
+
+    if (this.mode === 'replay') {
+      if (!fs.existsSync(filePath)) {
+        throw new Error(`No hay respuesta grabada para ${signature} (${filePath})`);
+      }
+      const exchange: RecordedExchange = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+      log(`📼 Respuesta reproducida: ${method} ${new URL(url).pathname}`);
+      return toResponse(exchange);
+    }
+
+    const response = await fetch(url, init);
+    const exchange: RecordedExchange = {
+      signature,
+      recordedAt: new Date().toISOString(),
+      request: { method, url, body },
+      response: {
+        status: response.status,
+        statusText: response.statusText,
+        headers: Array.from(response.headers.entries()).filter(([name]) => !SKIPPED_HEADERS.includes(name.toLowerCase())),
+        setCookies: typeof response.headers.getSetCookie === 'function' ? response.headers.getSetCookie() : [],
+        body: await response.text(),
+      },
+    };
+
+    fs.mkdirSync(this.recordingsDir, { recursive: true });
+    fs.writeFileSync(filePath, JSON.stringify(exchange, null, 2));
+    log(`💾 Respuesta grabada: ${method} ${new URL(url).pathname} -> ${path.basename(filePath)}`);
+    return toResponse(exchange);
+  }
+}
+
+/**
+ * Stable key of a request: method, path and query without the host (so recordings
+ * replay against any base URL), and the form body sorted and without session tokens
+ */
+export function requestSignature(method: string, url: string, body: string | null): string {
+  const parsed = new URL(url);
+  const query = new URLSearchParams(parsed.searchParams);
+  query.sort();
+
+  let normalizedBody = '';
+  if (body) {
+    const form = new URLSearchParams(body);
+    for (const field of VOLATILE_FIELDS) {
+      form.delete(field);
+    }
+    form.sort();
+    // Decoded so signatures stay readable in fixtures and error messages
+    normalizedBody = Array.from(form.entries()).map(([name, value]) => `${name}=${value}`).join('&');
+  }
+
+  const queryString = query.toString();
+  return `${method.toUpperCase()} ${parsed.pathname}${queryString ? `?${queryString}` : ''}${normalizedBody ? ` ${normalizedBody}` : ''}`;
+}
+
+let httpRecorder: HttpRecorder | null | undefined;
+
+/**
+ * Recorder configured by recording.mode, or null to go straight to the network
+ */
+export function getHttpRecorder(): HttpRecorder | null {
+  if (httpRecorder === undefined) {
+    const { mode, dir } = getAppConfig().recording;
+    httpRecorder = mode === 'off' ? null : new HttpRecorder(mode, dir);
+  }
+  return httpRecorder;
+}
+
+// e.g. "post-quotation-3f2a9c1b7d4e.json"
+function fixtureFileName(method: string, url: string, signature: string): string {
+  const lastSegment = new URL(url).pathname.split('/').filter(Boolean).pop() || 'root';
+  const slug = lastSegment.toLowerCase().replace(/[^a-z0-9]+/g, '-');
+  const hash = createHash('sha1').update(signature).digest('hex').slice(0, 12);
+  return `${method.toLowerCase()}-${slug}-${hash}.json`;
+}
+
+function toResponse(exchange: RecordedExchange): Response {
+  const headers = new Headers(exchange.response.headers);
+  for (const cookie of exchange.response.setCookies) {
+    headers.append('set-cookie', cookie);
+  }
+  const { status, statusText, body } = exchange.response;
+  return new Response(NULL_BODY_STATUSES.includes(status) ? null : body, { status, statusText, headers });
+}
@@ -1,80 +1,58 @@
-import { chromium, Browser, Page } from 'playwright';
+import { Page } from 'playwright';
 import { QuoteConfig, QuoteResult, CatalogData, CatalogOption, PurchaseFormData, PurchaseFormResult } from './types';
-import { defaultConfig, QUOTE_URL, SELECTORS } from './config';
+import { getAppConfig, getDefaultQuoteConfig, isMercantilUrl, quotePageUrl, SELECTORS } from './config';
+import { getBrowserManager, PageLease } from './browser-manager';
+import { describeExtractionIssues, extractQuotePlans } from './quote-extractor';
+import { storeScrapedCatalog } from './catalog-store';
+import { log } from './logger';
 import * as path from 'path';
 import * as fs from 'fs';
 
 class MercantilSegurosBot {
-  private browser: Browser | null = null;
+  private lease: PageLease | null = null;
   private page: Page | null = null;
 
+  /**
+   * Get an isolated page from the shared browser.
+   * Chromium itself is launched once per process by the browser manager.
+   */
   async initialize(): Promise<void> {
-    console.log('🚀 Initializing browser...');
-    this.browser = await chromium.launch({
-      headless: true,
-      args: [
-        '--disable-blink-features=AutomationControlled',
-        '--disable-dev-shm-usage',
-        '--disable-extensions',
-        '--disable-gpu',
-        '--disable-images', // Disable images to speed up loading
-        '--disable-setuid-sandbox',
-        '--no-sandbox',
-        '--disable-web-security',
-        '--disable-features=IsolateOrigins,site-per-process',
-      ],
-    });
-    this.page = await this.browser.newPage();
-    
-    // Block unnecessary resources to speed up page load
-    await this.page.route('**/*', (route) => {
-      const resourceType = route.request().resourceType();
-      // Block images, fonts, and media to speed up loading
-      if (['image', 'font', 'media'].includes(resourceType)) {
-        route.abort();
-      } else {
-        route.continue();
-      }
-    });
-    
-    // Set smaller viewport (enough for the form)
-    await this.page.setViewportSize({ width: 1280, height: 720 });
-    
-    console.log('✅ Browser initialized');
+    this.lease = await getBrowserManager().acquirePage();
+    this.page = this.lease.page;
   }
 
-  async generateQuote(config: QuoteConfig = defaultConfig): Promise<QuoteResult> {
+  async generateQuote(config: QuoteConfig = getDefaultQuoteConfig()): Promise<QuoteResult> {
     if (!this.page) {
       throw new Error('Bot not initialized. Call initialize() first.');
     }
 
     try {
-      console.log('📋 Starting quote generation with config:', config);
+      log('📋 Starting quote generation with config:', config);
       
       // Navigate to the quote page
-      console.log(`🌐 Navigating to ${QUOTE_URL}...`);
+      log(`🌐 Navigating to ${quotePageUrl()}...`);
       // Use 'load' instead of 'networkidle' to avoid timeout issues with continuous network activity
-      await this.page.goto(QUOTE_URL, { 
+      await this.page.goto(quotePageUrl(), { 
         waitUntil: 'load',
-        timeout: 60000 // Increase timeout to 60 seconds
+        timeout: getAppConfig().timeouts.navigationMs
       });
       
       // Wait for the form to be visible
-      await this.page.waitForSelector(SELECTORS.tripType, { timeout: 15000 });
-      console.log('✅ Page loaded successfully');
+      await this.page.waitForSelector(SELECTORS.tripType, { timeout: getAppConfig().timeouts.formMs });
+      log('✅ Page loaded successfully');
 
       // Fill in Trip Type
-      console.log(`📝 Selecting trip type: ${config.tripType}`);
+      log(`📝 Selecting trip type: ${config.tripType}`);
       await this.page.selectOption(SELECTORS.tripType, config.tripType);
       // Reduced wait time - only wait if needed
       await this.page.waitForTimeout(300);
 
       // Get available destinations for this trip type
       const availableDestinations = await this.getAvailableDestinations(config.tripType);
-      console.log(`📋 Available destinations for "${config.tripType}": ${availableDestinations.map(d => d.text).join(', ')}`);
+      log(`📋 Available destinations for "${config.tripType}": ${availableDestinations.map(d => d.text).join(', ')}`);
 
       // Fill in Origin
-      console.log(`📝 Selecting origin: ${config.origin}`);
+      log(`📝 Selecting origin: ${config.origin}`);
       
       // Get all origin options and find the one that matches
       const originOptions = await this.page.locator(`${SELECTORS.origin} option`).all();
@@ -90,14 +68,14 @@ class MercantilSegurosBot {
       
       if (originValue && originValue !== '') {
         await this.page.selectOption(SELECTORS.origin, originValue);
-        console.log(`✅ Selected origin "${config.origin}" with value: ${originValue}`);
+        log(`✅ Selected origin "${config.origin}" with value: ${originValue}`);
       } else {
         throw new Error(`Origin "${config.origin}" not found in dropdown`);
       }
       await this.page.waitForTimeout(500);
 
       // Fill in Destination - use the already fetched available destinations
-      console.log(`📝 Selecting destination: ${config.destination}`);
+      log(`📝 Selecting destination: ${config.destination}`);
       
       // Find the destination in available options
       const destinationOption = availableDestinations.find(
@@ -107,7 +85,7 @@ class MercantilSegurosBot {
       
       if (destinationOption) {
         await this.page.selectOption(SELECTORS.destination, destinationOption.value);
-        console.log(`✅ Selected destination "${destinationOption.text}" with value: ${destinationOption.value}`);
+        log(`✅ Selected destination "${destinationOption.text}" with value: ${destinationOption.value}`);
       } else {
         const availableNames = availableDestinations.map(d => d.text).join(', ');
         throw new Error(
@@ -119,13 +97,13 @@ class MercantilSegurosBot {
 
       // Agent/Agency is already pre-filled, but we can verify or set it
       if (config.agent) {
-        console.log(`📝 Setting agent: ${config.agent}`);
+        log(`📝 Setting agent: ${config.agent}`);
         await this.page.selectOption(SELECTORS.agent, config.agent);
         await this.page.waitForTimeout(300);
       }
 
       // Fill in Date Range
-      console.log(`📝 Setting date range: ${config.departureDate} - ${config.returnDate}`);
+      log(`📝 Setting date range: ${config.departureDate} - ${config.returnDate}`);
       const dateRangeInput = this.page.locator(SELECTORS.dateRange);
       
       // Click to focus the input
@@ -163,34 +141,34 @@ class MercantilSegurosBot {
       if (actualValue !== dateRangeValue) {
         console.warn(`⚠️ Warning: Date range mismatch. Expected "${dateRangeValue}" but got "${actualValue}"`);
       } else {
-        console.log(`✅ Date range set correctly: "${actualValue}"`);
+        log(`✅ Date range set correctly: "${actualValue}"`);
       }
 
       // Set Passenger Count
-      console.log(`📝 Setting passenger count: ${config.passengers}`);
+      log(`📝 Setting passenger count: ${config.passengers}`);
       await this.page.selectOption(SELECTORS.passengerCount, config.passengers.toString());
       await this.page.waitForTimeout(500); // Wait for age inputs to appear
 
       // Fill in Ages
-      console.log(`📝 Setting passenger ages: ${config.ages.join(', ')}`);
+      log(`📝 Setting passenger ages: ${config.ages.join(', ')}`);
       for (let i = 0; i < config.ages.length; i++) {
         const ageInput = this.page.locator(SELECTORS.ageInput(i));
-        await ageInput.waitFor({ state: 'visible', timeout: 5000 });
+        await ageInput.waitFor({ state: 'visible', timeout: getAppConfig().timeouts.elementMs });
         await ageInput.fill(config.ages[i].toString());
         await this.page.waitForTimeout(200);
       }
 
       // Take a screenshot before submission
-      const screenshotDir = path.join(process.cwd(), 'screenshots');
+      const screenshotDir = getAppConfig().screenshotsDir;
       if (!fs.existsSync(screenshotDir)) {
         fs.mkdirSync(screenshotDir, { recursive: true });
       }
       const screenshotPath = path.join(screenshotDir, `quote-before-${Date.now()}.png`);
       await this.page.screenshot({ path: screenshotPath, fullPage: true });
-      console.log(`📸 Screenshot saved: ${screenshotPath}`);
+      log(`📸 Screenshot saved: ${screenshotPath}`);
 
       // Submit the form
-      console.log('🚀 Submitting form...');
+      log('🚀 Submitting form...');
       
       // Ensure calendar is closed before looking for the button
       try {
@@ -208,33 +186,33 @@ class MercantilSegurosBot {
       await this.page.waitForTimeout(300);
       
       // Wait for the button to be visible and enabled
-      await submitButton.waitFor({ state: 'visible', timeout: 5000 });
+      await submitButton.waitFor({ state: 'visible', timeout: getAppConfig().timeouts.elementMs });
       
       await submitButton.click();
 
-      console.log('⏳ Waiting for quotes to load...');
+      log('⏳ Waiting for quotes to load...');
       
       // Wait for the loading indicator to appear (if it does)
       try {
         await this.page.waitForSelector('#loading', { state: 'visible', timeout: 2000 });
-        console.log('📊 Loading indicator appeared, waiting for it to disappear...');
+        log('📊 Loading indicator appeared, waiting for it to disappear...');
       } catch (error) {
         // Loading indicator might not appear, continue
       }
 
       // Wait for the loading indicator to disappear
       try {
-        await this.page.waitForSelector('#loading', { state: 'hidden', timeout: 30000 });
-        console.log('✅ Loading indicator disappeared');
+        await this.page.waitForSelector('#loading', { state: 'hidden', timeout: getAppConfig().timeouts.resultsMs });
+        log('✅ Loading indicator disappeared');
       } catch (error) {
-        console.log('⚠️ Loading indicator check timed out, continuing...');
+        log('⚠️ Loading indicator check timed out, continuing...');
       }
 
       // Wait for quote cards to appear
-      console.log('📋 Waiting for quote cards to appear...');
+      log('📋 Waiting for quote cards to appear...');
       try {
-        await this.page.waitForSelector('.item-block', { state: 'visible', timeout: 30000 });
-        console.log('✅ Quote cards appeared');
+        await this.page.waitForSelector('.item-block', { state: 'visible', timeout: getAppConfig().timeouts.resultsMs });
+        log('✅ Quote cards appeared');
       } catch (error) {
         console.warn('⚠️ Quote cards not found, but continuing...');
       }
@@ -244,58 +222,36 @@ class MercantilSegurosBot {
 
       // Check if we're redirected or if there's a result
       const currentUrl = this.page.url();
-      console.log(`📍 Current URL after submission: ${currentUrl}`);
+      log(`📍 Current URL after submission: ${currentUrl}`);
 
       // Take a screenshot after submission
       const screenshotAfterPath = path.join(screenshotDir, `quote-after-${Date.now()}.png`);
       await this.page.screenshot({ path: screenshotAfterPath, fullPage: true });
-      console.log(`📸 Post-submission screenshot saved: ${screenshotAfterPath}`);
+      log(`📸 Post-submission screenshot saved: ${screenshotAfterPath}`);
 
-      // Try to extract quote data if available
-      let quoteData = null;
-      try {
-        // Extract quote plans from the page
-        const quotePlans = await this.page.locator('.item-block').all();
-        const plans: Array<{ name: string; price: string; planId: string }> = [];
+      // Extract quote plans with the same schema-driven parser as the HTTP client
+      const quoteContent = await this.page.content();
+      const extraction = extractQuotePlans(quoteContent, config.passengers);
 
-        for (const planCard of quotePlans) {
-          try {
-            const planName = await planCard.locator('h3').first().textContent();
-            const planPrice = await planCard.locator('p.text-color-light.opacity-7').first().textContent();
-            const planId = await planCard.locator('form').first().getAttribute('id');
-            
-            if (planName && planPrice) {
-              plans.push({
-                name: planName.trim(),
-                price: planPrice.trim(),
-                planId: planId || '',
-              });
-            }
-          } catch (error) {
-            // Skip this plan if extraction fails
-          }
-        }
-
-        const quoteContent = await this.page.content();
-        quoteData = {
-          url: currentUrl,
-          contentLength: quoteContent.length,
-          plans: plans,
-          planCount: plans.length,
-        };
-        
-        console.log(`📊 Found ${plans.length} quote plans:`);
-        plans.forEach((plan, index) => {
-          console.log(`  ${index + 1}. ${plan.name} - ${plan.price}`);
-        });
-      } catch (error) {
-        console.warn('⚠️ Could not extract quote data:', error);
-        const quoteContent = await this.page.content();
-        quoteData = {
-          url: currentUrl,
-          contentLength: quoteContent.length,
-        };
+      if (extraction.issues.length > 0) {
+        console.warn(`⚠️ ${describeExtractionIssues(extraction)}`);
       }
+      if (extraction.plans.length === 0 && !extraction.noResults) {
+        throw new Error(describeExtractionIssues(extraction));
+      }
+
+      const quoteData = {
+        url: currentUrl,
+        contentLength: quoteContent.length,
+        plans: extraction.plans,
+        planCount: extraction.plans.length,
+        schemaVersion: extraction.schemaVersion,
+      };
+
+      log(`📊 Found ${extraction.plans.length} quote plans:`);
+      extraction.plans.forEach((plan, index) => {
+        log(`  ${index + 1}. ${plan.title} - ${plan.price}`);
+      });
 
       return {
         success: true,
@@ -306,7 +262,7 @@ class MercantilSegurosBot {
       console.error('❌ Error generating quote:', error);
       
       // Take error screenshot
-      const screenshotDir = path.join(process.cwd(), 'screenshots');
+      const screenshotDir = getAppConfig().screenshotsDir;
       if (!fs.existsSync(screenshotDir)) {
         fs.mkdirSync(screenshotDir, { recursive: true });
       }
@@ -328,13 +284,13 @@ class MercantilSegurosBot {
       throw new Error('Bot not initialized. Call initialize() first.');
     }
 
-    console.log('📚 Scraping catalog data...');
+    log('📚 Scraping catalog data...');
 
     // Navigate to the quote page if not already there
     const currentUrl = this.page.url();
-    if (!currentUrl.includes('mercantilseguros.com')) {
-      await this.page.goto(QUOTE_URL, { waitUntil: 'load', timeout: 60000 });
-      await this.page.waitForSelector(SELECTORS.tripType, { timeout: 15000 });
+    if (!isMercantilUrl(currentUrl)) {
+      await this.page.goto(quotePageUrl(), { waitUntil: 'load', timeout: getAppConfig().timeouts.navigationMs });
+      await this.page.waitForSelector(SELECTORS.tripType, { timeout: getAppConfig().timeouts.formMs });
     }
 
     // Scrape Trip Types
@@ -350,7 +306,7 @@ class MercantilSegurosBot {
         });
       }
     }
-    console.log(`✅ Found ${tripTypes.length} trip types`);
+    log(`✅ Found ${tripTypes.length} trip types`);
 
     // Scrape Origins
     const originOptions = await this.page.locator(`${SELECTORS.origin} option`).all();
@@ -365,7 +321,7 @@ class MercantilSegurosBot {
         });
       }
     }
-    console.log(`✅ Found ${origins.length} origins`);
+    log(`✅ Found ${origins.length} origins`);
 
     // Scrape Destinations for each Trip Type
     const destinations: { [tripType: string]: CatalogOption[] } = {};
@@ -373,7 +329,7 @@ class MercantilSegurosBot {
     for (const tripType of tripTypes) {
       if (tripType.value === '') continue;
 
-      console.log(`📝 Checking destinations for trip type: ${tripType.text}`);
+      log(`📝 Checking destinations for trip type: ${tripType.text}`);
       
       // Select the trip type
       await this.page.selectOption(SELECTORS.tripType, tripType.value);
@@ -406,7 +362,7 @@ class MercantilSegurosBot {
       }
 
       destinations[tripType.value] = availableDestinations;
-      console.log(`  ✅ Found ${availableDestinations.length} destinations: ${availableDestinations.map(d => d.text).join(', ')}`);
+      log(`  ✅ Found ${availableDestinations.length} destinations: ${availableDestinations.map(d => d.text).join(', ')}`);
     }
 
     // Scrape Agents
@@ -422,7 +378,7 @@ class MercantilSegurosBot {
         });
       }
     }
-    console.log(`✅ Found ${agents.length} agents`);
+    log(`✅ Found ${agents.length} agents`);
 
     const catalog: CatalogData = {
       tripTypes,
@@ -431,7 +387,7 @@ class MercantilSegurosBot {
       agents,
     };
 
-    console.log('✅ Catalog scraping complete!');
+    log('✅ Catalog scraping complete!');
     return catalog;
   }
 
@@ -477,17 +433,17 @@ class MercantilSegurosBot {
     }
 
     try {
-      console.log(`🛒 Buscando botón COMPRAR para el plan ${planIndex + 1}...`);
+      log(`🛒 Buscando botón COMPRAR para el plan ${planIndex + 1}...`);
 
       // Wait for quote cards to be visible
-      await this.page.waitForSelector('.item-block', { state: 'visible', timeout: 10000 });
+      await this.page.waitForSelector('.item-block', { state: 'visible', timeout: getAppConfig().timeouts.formMs });
 
       // Find all COMPRAR buttons
       const comprarButtons = await this.page.locator('button, a, input[type="submit"]')
         .filter({ hasText: /COMPRAR/i })
         .all();
 
-      console.log(`📋 Encontrados ${comprarButtons.length} botones COMPRAR`);
+      log(`📋 Encontrados ${comprarButtons.length} botones COMPRAR`);
 
       if (comprarButtons.length === 0) {
         throw new Error('No se encontraron botones COMPRAR');
@@ -499,14 +455,14 @@ class MercantilSegurosBot {
 
       const targetButton = comprarButtons[planIndex];
       const buttonText = await targetButton.textContent();
-      console.log(`✅ Botón encontrado: ${buttonText?.trim()}`);
+      log(`✅ Botón encontrado: ${buttonText?.trim()}`);
 
       // Capture before state
       const beforeURL = this.page.url();
-      console.log(`📍 URL actual: ${beforeURL}`);
+      log(`📍 URL actual: ${beforeURL}`);
 
       // Take screenshot before clicking
-      const screenshotDir = path.join(process.cwd(), 'screenshots');
+      const screenshotDir = getAppConfig().screenshotsDir;
       if (!fs.existsSync(screenshotDir)) {
         fs.mkdirSync(screenshotDir, { recursive: true });
       }
@@ -514,25 +470,25 @@ class MercantilSegurosBot {
       await this.page.screenshot({ path: screenshotBeforePath, fullPage: true });
 
       // Click the button
-      console.log(`🖱️ Haciendo clic en COMPRAR...`);
+      log(`🖱️ Haciendo clic en COMPRAR...`);
       
       // Wait for navigation or form to appear
       const [response] = await Promise.all([
         this.page.waitForResponse(
           (response) => response.status() === 200 || response.status() === 302,
-          { timeout: 30000 }
+          { timeout: getAppConfig().timeouts.resultsMs }
         ).catch(() => null),
         targetButton.click(),
       ]);
 
       // Wait for page to load or form to appear
-      console.log(`⏳ Esperando a que se cargue el formulario de compra...`);
+      log(`⏳ Esperando a que se cargue el formulario de compra...`);
       
       try {
         // Wait for either URL change or form to appear
         await Promise.race([
-          this.page.waitForURL((url) => url.toString() !== beforeURL, { timeout: 10000 }),
-          this.page.waitForSelector('form', { timeout: 10000 }),
+          this.page.waitForURL((url) => url.toString() !== beforeURL, { timeout: getAppConfig().timeouts.formMs }),
+          this.page.waitForSelector('form', { timeout: getAppConfig().timeouts.formMs }),
         ]);
       } catch (error) {
         console.warn('⚠️ Timeout esperando el formulario, continuando...');
@@ -544,17 +500,17 @@ class MercantilSegurosBot {
       // Capture after state
       const afterURL = this.page.url();
       const html = await this.page.content();
-      console.log(`📍 Nueva URL: ${afterURL}`);
-      console.log(`📄 HTML capturado: ${html.length} bytes`);
+      log(`📍 Nueva URL: ${afterURL}`);
+      log(`📄 HTML capturado: ${html.length} bytes`);
 
       // Take screenshot after clicking
       const screenshotAfterPath = path.join(screenshotDir, `purchase-after-${Date.now()}.png`);
       await this.page.screenshot({ path: screenshotAfterPath, fullPage: true });
-      console.log(`📸 Screenshot guardado: ${screenshotAfterPath}`);
+      log(`📸 Screenshot guardado: ${screenshotAfterPath}`);
 
       // Extract forms
       const forms = await this.page.locator('form').all();
-      console.log(`📋 Formularios encontrados: ${forms.length}`);
+      log(`📋 Formularios encontrados: ${forms.length}`);
 
       const purchaseForms = [];
       const fieldsWithAnalysis: Array<Array<any>> = []; // Store analysis data separately
@@ -565,10 +521,10 @@ class MercantilSegurosBot {
         const formAction = await form.getAttribute('action');
         const formMethod = await form.getAttribute('method') || 'GET';
 
-        console.log(`\n📝 Formulario ${i + 1}:`);
-        console.log(`   ID: ${formId || 'sin ID'}`);
-        console.log(`   Action: ${formAction || 'sin action'}`);
-        console.log(`   Method: ${formMethod}`);
+        log(`\n📝 Formulario ${i + 1}:`);
+        log(`   ID: ${formId || 'sin ID'}`);
+        log(`   Action: ${formAction || 'sin action'}`);
+        log(`   Method: ${formMethod}`);
 
         // Extract all input fields
         const inputs = await form.locator('input, select, textarea').all();
@@ -835,7 +791,7 @@ class MercantilSegurosBot {
           fieldsWithAnalysis[i].push(fieldWithAnalysis);
         }
 
-        console.log(`   Campos: ${fields.length}`);
+        log(`   Campos: ${fields.length}`);
 
         purchaseForms.push({
           index: i,
@@ -853,7 +809,7 @@ class MercantilSegurosBot {
       };
 
       // Always save raw data for analysis
-      const dataDir = path.join(process.cwd(), 'data');
+      const dataDir = getAppConfig().dataDir;
       if (!fs.existsSync(dataDir)) {
         fs.mkdirSync(dataDir, { recursive: true });
       }
@@ -887,9 +843,9 @@ class MercantilSegurosBot {
       fs.writeFileSync(rawDataPath, JSON.stringify(rawData, null, 2), 'utf-8');
       fs.writeFileSync(htmlPath, html, 'utf-8');
       
-      console.log(`💾 Raw form data saved for analysis:`);
-      console.log(`   JSON: ${rawDataPath}`);
-      console.log(`   HTML: ${htmlPath}`);
+      log(`💾 Raw form data saved for analysis:`);
+      log(`   JSON: ${rawDataPath}`);
+      log(`   HTML: ${htmlPath}`);
 
       return {
         success: true,
@@ -900,7 +856,7 @@ class MercantilSegurosBot {
       console.error('❌ Error al hacer clic en COMPRAR y capturar formulario:', error);
 
       // Take error screenshot
-      const screenshotDir = path.join(process.cwd(), 'screenshots');
+      const screenshotDir = getAppConfig().screenshotsDir;
       if (!fs.existsSync(screenshotDir)) {
         fs.mkdirSync(screenshotDir, { recursive: true });
       }
@@ -917,10 +873,15 @@ class MercantilSegurosBot {
     }
   }
 
+  /**
+   * Release the page back to the browser manager.
+   * The shared browser keeps running for the next bot.
+   */
   async close(): Promise<void> {
-    if (this.browser) {
-      await this.browser.close();
-      console.log('🔒 Browser closed');
+    if (this.lease) {
+      await this.lease.release();
+      this.lease = null;
+      this.page = null;
     }
   }
 }
@@ -933,23 +894,16 @@ async function scrapeCatalog() {
     await bot.initialize();
     const catalog = await bot.scrapeCatalog();
     
-    // Save catalog to JSON file
-    const catalogDir = path.join(process.cwd(), 'data');
-    if (!fs.existsSync(catalogDir)) {
-      fs.mkdirSync(catalogDir, { recursive: true });
-    }
-    const catalogPath = path.join(catalogDir, `catalog-${Date.now()}.json`);
-    fs.writeFileSync(catalogPath, JSON.stringify(catalog, null, 2), 'utf-8');
-    
-    console.log(`\n📁 Catalog saved to: ${catalogPath}`);
-    console.log('\n📊 Catalog Summary:');
-    console.log(`  Trip Types: ${catalog.tripTypes.length}`);
-    console.log(`  Origins: ${catalog.origins.length}`);
-    console.log(`  Agents: ${catalog.agents.length}`);
-    console.log('\n  Destinations by Trip Type:');
+    storeScrapedCatalog(catalog, 'browser-scrape');
+
+    log('\n📊 Catalog Summary:');
+    log(`  Trip Types: ${catalog.tripTypes.length}`);
+    log(`  Origins: ${catalog.origins.length}`);
+    log(`  Agents: ${catalog.agents.length}`);
+    log('\n  Destinations by Trip Type:');
     for (const [tripType, destinations] of Object.entries(catalog.destinations)) {
       const tripTypeName = catalog.tripTypes.find(t => t.value === tripType)?.text || tripType;
-      console.log(`    ${tripTypeName}: ${destinations.map(d => d.text).join(', ')}`);
+      log(`    ${tripTypeName}: ${destinations.map(d => d.text).join(', ')}`);
     }
     
     return catalog;
@@ -958,60 +912,7 @@ async function scrapeCatalog() {
     throw error;
   } finally {
     await bot.close();
-  }
-}
-
-// Main execution
-async function main() {
-  const bot = new MercantilSegurosBot();
-  
-  try {
-    await bot.initialize();
-    
-    // Use default config or customize
-    const customConfig: QuoteConfig = {
-      ...defaultConfig,
-      // Override defaults here if needed
-      // tripType: 'Anual Multiviaje',
-      // origin: 'Venezuela',
-      // destination: 'Europa', // For "Viajes Por Día": 'Europa' or 'Resto del Mundo'
-      // destination: 'Mundial', // For "Anual Multiviaje": 'Mundial'
-      // departureDate: '01/02/2026',
-      // returnDate: '10/02/2026',
-      passengers: 6,
-      ages: [35, 32, 28, 25, 22, 20], // 6 ages for 6 passengers
-    };
-
-    const result = await bot.generateQuote(customConfig);
-    
-    if (result.success) {
-      console.log('✅ Quote generated successfully!');
-      console.log('📊 Quote data:', result.quoteData);
-      if (result.screenshotPath) {
-        console.log(`📸 Screenshot: ${result.screenshotPath}`);
-      }
-    } else {
-      console.error('❌ Failed to generate quote:', result.error);
-      if (result.screenshotPath) {
-        console.log(`📸 Error screenshot: ${result.screenshotPath}`);
-      }
-    }
-  } catch (error) {
-    console.error('💥 Fatal error:', error);
-  } finally {
-    await bot.close();
-  }
-}
-
-// Run if this file is executed directly
-if (require.main === module) {
-  // Check command line arguments
-  const args = process.argv.slice(2);
-  
-  if (args.includes('--scrape') || args.includes('-s')) {
-    scrapeCatalog().catch(console.error);
-  } else {
-    main().catch(console.error);
+    await getBrowserManager().shutdown();
   }
 }
 
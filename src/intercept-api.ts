@@ -1,21 +1,12 @@
 import { interceptNetworkRequests } from './network-interceptor';
-import { QuoteConfig } from './types';
+import { getDefaultQuoteConfig } from './config';
 
 /**
  * Script to intercept network requests and discover the actual API endpoint
  * Run with: tsx src/intercept-api.ts
  */
 async function main() {
-  const config: QuoteConfig = {
-    tripType: 'Viajes Por Día',
-    origin: 'Panamá',
-    destination: 'Europa',
-    departureDate: '15/01/2026',
-    returnDate: '20/01/2026',
-    passengers: 1,
-    ages: [30],
-    agent: '2851',
-  };
+  const config = getDefaultQuoteConfig();
 
   console.log('🔍 Interceptando peticiones de red para descubrir el endpoint de la API...\n');
   
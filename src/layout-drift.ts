@@ -0,0 +1,382 @@
+import { load, CheerioAPI, Cheerio } from 'cheerio';
+import type { AnyNode } from 'domhandler';
+import * as path from 'path';
+import * as fs from 'fs';
+import { MercantilSegurosAPIClient } from './api-client';
+import { getAppConfig, getDefaultQuoteConfig, QUOTE_PATH, SELECTORS } from './config';
+import { QUOTE_EXTRACTION_SCHEMA } from './extraction-schema';
+import { extractPurchaseForms, isRiderCheckbox } from './purchase-form-extractor';
+import { extractQuotePlans } from './quote-extractor';
+import { QuoteConfig } from './types';
+
+/**
+ * Layout-drift detection for the Mercantil pages the bot depends on.
+ * Each page is reduced to a fingerprint (the fields and selectors we rely on)
+ * and compared against a stored baseline, so markup changes are caught
+ * before customers hit broken quotes.
+ */
+
+export type DriftPage = 'quote-page' | 'quote-result' | 'purchase-form';
+
+export interface FieldFingerprint {
+  key: string; // Stable identifier used to line up baseline and current fields
+  tag: string | null;
+  name: string | null;
+  type: string | null;
+  label: string | null;
+}
+
+export interface PageFingerprint {
+  page: DriftPage;
+  url: string;
+  capturedAt: string;
+  fields: FieldFingerprint[];
+}
+
+export interface LayoutBaseline {
+  createdAt: string;
+  schemaVersion: number; // Extraction schema version in use when the baseline was taken
+  pages: Partial<Record<DriftPage, PageFingerprint>>;
+}
+
+export interface FieldChange {
+  key: string;
+  before: FieldFingerprint;
+  after: FieldFingerprint;
+  changes: Array<keyof FieldFingerprint>;
+}
+
+export interface PageDriftReport {
+  page: DriftPage;
+  hasDrift: boolean;
+  missingBaseline: boolean;
+  added: FieldFingerprint[];
+  removed: FieldFingerprint[];
+  renamed: Array<{ from: FieldFingerprint; to: FieldFingerprint }>;
+  changed: FieldChange[];
+}
+
+export interface DriftReport {
+  checkedAt: string;
+  hasDrift: boolean;
+  pages: PageDriftReport[];
+  errors: Array<{ page: DriftPage; error: string }>;
+}
+
+function baselinePath(): string {
+  return path.join(getAppConfig().dataDir, 'layout-baseline.json');
+}
+
+/**
+ * Fingerprint the quote page from the selectors in SELECTORS and the named
+ * controls of the search form
+ */
+export function fingerprintQuotePage(html: string, url: string): PageFingerprint {
+  const $ = load(html);
+  const fields: FieldFingerprint[] = [];
+
+  for (const [key, selectorOrFn] of Object.entries(SELECTORS)) {
+    const selector = typeof selectorOrFn === 'function' ? selectorOrFn(0) : selectorOrFn;
+    const element = $(selector).first();
+    if (element.length === 0) continue;
+    fields.push(describeElement(`selector:${key}`, $, element));
+  }
+
+  const searchForm = $(SELECTORS.tripType).closest('form');
+  searchForm.find('input[name], select[name], textarea[name]').each((_, el) => {
+    const element = $(el);
+    fields.push(describeElement(`field:${normalizeFieldName(element.attr('name')!)}`, $, element));
+  });
+
+  return { page: 'quote-page', url, capturedAt: new Date().toISOString(), fields: dedupe(fields) };
+}
+
+/**
+ * Fingerprint the quotation result by recording which schema selector matched each field
+ */
+export function fingerprintQuoteResult(html: string, url: string): PageFingerprint {
+  const $ = load(html);
+  const fields: FieldFingerprint[] = [];
+  const schema = QUOTE_EXTRACTION_SCHEMA;
+
+  const cardCandidate = schema.planCard.candidates.find((candidate) => $(candidate.selector).length > 0);
+  if (cardCandidate) {
+    fields.push({ key: 'schema:planCard', tag: null, name: cardCandidate.selector, type: null, label: null });
+    const card = $(cardCandidate.selector).first();
+
+    for (const [field, spec] of Object.entries(schema.fields)) {
+      const matched = spec.candidates.find((candidate) =>
+        card.find(candidate.selector).length > 0
+      );
+      if (matched) {
+        fields.push({ key: `schema:${field}`, tag: null, name: matched.selector, type: null, label: null });
+      }
+    }
+
+    card.find('input[name], select[name], button[name]').each((_, el) => {
+      const element = $(el);
+      fields.push(describeElement(`field:${normalizeFieldName(element.attr('name')!)}`, $, element));
+    });
+  }
+
+  return { page: 'quote-result', url, capturedAt: new Date().toISOString(), fields: dedupe(fields) };
+}
+
+/**
+ * Fingerprint the buy/step-one form: field names, labels and rider checkboxes
+ */
+export function fingerprintPurchaseForm(html: string, url: string): PageFingerprint {
+  const fields: FieldFingerprint[] = [];
+
+  for (const form of extractPurchaseForms(html)) {
+    for (const field of form.fields) {
+      if (!field.name) continue;
+      const prefix = isRiderCheckbox(field.type, field.name, field.dataPremium ?? null) ? 'rider' : 'field';
+      fields.push({
+        key: `${prefix}:${normalizeFieldName(field.name)}`,
+        tag: field.tag,
+        name: normalizeFieldName(field.name),
+        type: field.type,
+        label: field.label,
+      });
+    }
+  }
+
+  return { page: 'purchase-form', url, capturedAt: new Date().toISOString(), fields: dedupe(fields) };
+}
+
+export function compareFingerprints(page: DriftPage, baseline: PageFingerprint | undefined, current: PageFingerprint): PageDriftReport {
+  if (!baseline) {
+    return { page, hasDrift: false, missingBaseline: true, added: [], removed: [], renamed: [], changed: [] };
+  }
+
+  const baselineByKey = new Map(baseline.fields.map((field) => [field.key, field]));
+  const currentByKey = new Map(current.fields.map((field) => [field.key, field]));
+
+  let added = current.fields.filter((field) => !baselineByKey.has(field.key));
+  let removed = baseline.fields.filter((field) => !currentByKey.has(field.key));
+  const changed: FieldChange[] = [];
+
+  for (const [key, before] of baselineByKey) {
+    const after = currentByKey.get(key);
+    if (!after) continue;
+    const changes = (['tag', 'name', 'type', 'label'] as const).filter((prop) => before[prop] !== after[prop]);
+    if (changes.length > 0) {
+      changed.push({ key, before, after, changes });
+    }
+  }
+
+  // A removed and an added field with the same label and control type is a rename
+  const renamed: Array<{ from: FieldFingerprint; to: FieldFingerprint }> = [];
+  for (const from of [...removed]) {
+    if (!from.label) continue;
+    const to = added.find((field) => field.label === from.label && field.tag === from.tag && field.type === from.type);
+    if (to) {
+      renamed.push({ from, to });
+      removed = removed.filter((field) => field !== from);
+      added = added.filter((field) => field !== to);
+    }
+  }
+
+  return {
+    page,
+    hasDrift: added.length > 0 || removed.length > 0 || renamed.length > 0 || changed.length > 0,
+    missingBaseline: false,
+    added,
+    removed,
+    renamed,
+    changed,
+  };
+}
+
+/**
+ * Fetch the live pages over HTTP and fingerprint them
+ */
+export async function captureFingerprints(
+  config: QuoteConfig = driftQuoteConfig()
+): Promise<{ fingerprints: PageFingerprint[]; errors: DriftReport['errors'] }> {
+  const client = new MercantilSegurosAPIClient();
+  const fingerprints: PageFingerprint[] = [];
+  const errors: DriftReport['errors'] = [];
+
+  try {
+    fingerprints.push(fingerprintQuotePage(await client.getQuotePageHtml(), QUOTE_PATH));
+  } catch (error) {
+    errors.push({ page: 'quote-page', error: errorMessage(error) });
+  }
+
+  let quotation: { html: string; url: string } | null = null;
+  try {
+    quotation = await client.requestQuotation(config);
+    fingerprints.push(fingerprintQuoteResult(quotation.html, quotation.url));
+  } catch (error) {
+    errors.push({ page: 'quote-result', error: errorMessage(error) });
+  }
+
+  try {
+    if (!quotation) {
+      throw new Error('No hay cotización para abrir el formulario de compra');
+    }
+    const quoteUuid = quotation.url.match(/quotation\/([a-f0-9]+)/)?.[1];
+    const planId = extractQuotePlans(quotation.html, config.passengers).plans[0]?.planId;
+    if (!quoteUuid || !planId) {
+      throw new Error('La cotización no tiene UUID o planes para abrir el formulario de compra');
+    }
+    const purchasePage = await client.fetchPurchasePage(quoteUuid, planId);
+    fingerprints.push(fingerprintPurchaseForm(purchasePage.html, purchasePage.url));
+  } catch (error) {
+    errors.push({ page: 'purchase-form', error: errorMessage(error) });
+  }
+
+  return { fingerprints, errors };
+}
+
+/**
+ * Compare the live pages against the stored baseline
+ */
+export async function checkLayoutDrift(): Promise<DriftReport> {
+  const baseline = loadBaseline();
+  const { fingerprints, errors } = await captureFingerprints();
+  const pages = fingerprints.map((fingerprint) =>
+    compareFingerprints(fingerprint.page, baseline?.pages[fingerprint.page], fingerprint)
+  );
+
+  return {
+    checkedAt: new Date().toISOString(),
+    hasDrift: pages.some((page) => page.hasDrift),
+    pages,
+    errors,
+  };
+}
+
+/**
+ * Capture the live pages and store them as the new baseline
+ */
+export async function updateLayoutBaseline(): Promise<LayoutBaseline> {
+  const { fingerprints, errors } = await captureFingerprints();
+  if (errors.length > 0) {
+    throw new Error(`No se pudo capturar la línea base: ${errors.map((e) => `${e.page}: ${e.error}`).join('; ')}`);
+  }
+
+  const baseline: LayoutBaseline = {
+    createdAt: new Date().toISOString(),
+    schemaVersion: QUOTE_EXTRACTION_SCHEMA.version,
+    pages: {},
+  };
+  for (const fingerprint of fingerprints) {
+    baseline.pages[fingerprint.page] = fingerprint;
+  }
+
+  const filePath = baselinePath();
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(baseline, null, 2), 'utf-8');
+  return baseline;
+}
+
+export function loadBaseline(): LayoutBaseline | null {
+  const filePath = baselinePath();
+  if (!fs.existsSync(filePath)) {
+    return null;
+  }
+  return JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+}
+
+export function formatDriftReport(report: DriftReport): string {
+  const lines: string[] = [];
+
+  for (const page of report.pages) {
+    if (page.missingBaseline) {
+      lines.push(`⚪ ${page.page}: sin línea base (ejecute con --update-baseline)`);
+      continue;
+    }
+    if (!page.hasDrift) {
+      lines.push(`✅ ${page.page}: sin cambios`);
+      continue;
+    }
+    lines.push(`⚠️ ${page.page}: cambios detectados`);
+    page.added.forEach((field) => lines.push(`   + ${field.key}${field.label ? ` (${field.label})` : ''}`));
+    page.removed.forEach((field) => lines.push(`   - ${field.key}${field.label ? ` (${field.label})` : ''}`));
+    page.renamed.forEach(({ from, to }) => lines.push(`   ~ ${from.key} -> ${to.key} (${from.label})`));
+    page.changed.forEach((change) => {
+      const details = change.changes.map((prop) => `${prop}: "${change.before[prop]}" -> "${change.after[prop]}"`);
+      lines.push(`   * ${change.key}: ${details.join(', ')}`);
+    });
+  }
+
+  for (const { page, error } of report.errors) {
+    lines.push(`❌ ${page}: ${error}`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Quote used to reach the result and purchase pages: the default config moved into the future
+ */
+function driftQuoteConfig(): QuoteConfig {
+  const departure = new Date(Date.now() + 30 * 24 * 60 * 60 * 1000);
+  const returnDate = new Date(departure.getTime() + 7 * 24 * 60 * 60 * 1000);
+  return {
+    ...getDefaultQuoteConfig(),
+    departureDate: formatDayMonthYear(departure),
+    returnDate: formatDayMonthYear(returnDate),
+  };
+}
+
+function formatDayMonthYear(date: Date): string {
+  return `${String(date.getDate()).padStart(2, '0')}/${String(date.getMonth() + 1).padStart(2, '0')}/${date.getFullYear()}`;
+}
+
+function describeElement(key: string, $: CheerioAPI, element: Cheerio<AnyNode>): FieldFingerprint {
+  const id = element.attr('id');
+  const label = id ? $('label').filter((_, node) => $(node).attr('for') === id).first().text().replace(/\s+/g, ' ').trim() : '';
+  return {
+    key,
+    tag: (element.prop('tagName') || '').toLowerCase() || null,
+    name: element.attr('name') ? normalizeFieldName(element.attr('name')!) : null,
+    type: element.attr('type') || null,
+    label: label || null,
+  };
+}
+
+/**
+ * Collapse per-passenger indices so "[breakdowns][3][name]" and "[breakdowns][0][name]" compare equal
+ */
+function normalizeFieldName(name: string): string {
+  return name.replace(/\[\d+\]/g, '[n]');
+}
+
+function dedupe(fields: FieldFingerprint[]): FieldFingerprint[] {
+  const seen = new Set<string>();
+  return fields.filter((field) => {
+    if (seen.has(field.key)) return false;
+    seen.add(field.key);
+    return true;
+  });
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+// Run if this file is executed directly
+if (require.main === module) {
+  const args = process.argv.slice(2);
+
+  (async () => {
+    if (args.includes('--update-baseline')) {
+      const baseline = await updateLayoutBaseline();
+      console.log(`💾 Línea base guardada en ${baselinePath()} (${Object.keys(baseline.pages).length} páginas)`);
+      return;
+    }
+
+    const report = await checkLayoutDrift();
+    console.log(args.includes('--json') ? JSON.stringify(report, null, 2) : formatDriftReport(report));
+    if (report.hasDrift || report.errors.length > 0) {
+      process.exitCode = 1;
+    }
+  })().catch((error) => {
+    console.error('💥 Fatal error:', error);
+    process.exitCode = 1;
+  });
+}
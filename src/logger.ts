@@ -0,0 +1,21 @@
+/**
+ * Progress messages of the bots, HTTP client and catalog services.
+ * They go to stdout like console.log unless a command that prints its result
+ * on stdout (e.g. `bot quote --json`) sends them to stderr to keep it pipeable.
+ * Warnings and errors keep using console.warn / console.error.
+ */
+
+type LogWriter = (...args: unknown[]) => void;
+
+const toStdout: LogWriter = (...args) => console.log(...args);
+const toStderr: LogWriter = (...args) => console.error(...args);
+
+let writer: LogWriter = toStdout;
+
+export function log(...args: unknown[]): void {
+  writer(...args);
+}
+
+export function setLogOutput(output: 'stdout' | 'stderr'): void {
+  writer = output === 'stderr' ? toStderr : toStdout;
+}
@@ -1,12 +1,13 @@
 import { chromium, Browser, Page } from 'playwright';
 import { QuoteConfig } from './types';
-import { QUOTE_URL } from './config';
+import { getAppConfig, isMercantilUrl, quotePageUrl } from './config';
 
 /**
  * Intercept network requests to discover the API endpoint
  */
 export async function interceptNetworkRequests(config: QuoteConfig) {
-  const browser = await chromium.launch({ headless: true });
+  const { headless, timeouts } = getAppConfig();
+  const browser = await chromium.launch({ headless });
   const page = await browser.newPage();
 
   const requests: Array<{ url: string; method: string; postData?: string; headers?: Record<string, string> }> = [];
@@ -19,7 +20,7 @@ export async function interceptNetworkRequests(config: QuoteConfig) {
     const headers = request.headers();
 
     // Only log requests that might be API calls
-    if (url.includes('mercantilseguros.com') && (method === 'POST' || url.includes('quotation'))) {
+    if (isMercantilUrl(url) && (method === 'POST' || url.includes('quotation'))) {
       requests.push({
         url,
         method,
@@ -38,7 +39,7 @@ export async function interceptNetworkRequests(config: QuoteConfig) {
     const url = response.url();
     const status = response.status();
     
-    if (url.includes('mercantilseguros.com') && (url.includes('quotation') || status === 200)) {
+    if (isMercantilUrl(url) && (url.includes('quotation') || status === 200)) {
       console.log(`📥 Response: ${status} ${url}`);
       const contentType = response.headers()['content-type'] || '';
       if (contentType.includes('json')) {
@@ -54,8 +55,8 @@ export async function interceptNetworkRequests(config: QuoteConfig) {
 
   try {
     // Navigate and fill form (simplified version)
-    await page.goto(QUOTE_URL, { waitUntil: 'load', timeout: 60000 });
-    await page.waitForSelector('#websitebundle_quotation_search_product', { timeout: 15000 });
+    await page.goto(quotePageUrl(), { waitUntil: 'load', timeout: timeouts.navigationMs });
+    await page.waitForSelector('#websitebundle_quotation_search_product', { timeout: timeouts.formMs });
 
     // Fill form
     await page.selectOption('#websitebundle_quotation_search_product', config.tripType);
@@ -0,0 +1,72 @@
+import { QuotePlan } from './types';
+import { formatCoverage, formatMinorUnits } from './plan-details';
+
+/**
+ * Builds the rows of the side-by-side plan comparison on the results page.
+ * Works purely on the plans already returned by the quote, without calling Mercantil again.
+ */
+
+export const MIN_COMPARED_PLANS = 2;
+export const MAX_COMPARED_PLANS = 4;
+
+export interface ComparisonRow {
+  label: string;
+  values: string[]; // One formatted value per compared plan, in plan order
+  differs: boolean; // True when not all plans have the same value
+}
+
+/**
+ * Number of days covered by a trip, counting both the departure and return day.
+ * Dates use the DD/MM/YYYY format of QuoteConfig.
+ */
+export function countTripDays(departureDate: string, returnDate: string): number | null {
+  const start = parseDayMonthYear(departureDate);
+  const end = parseDayMonthYear(returnDate);
+  if (!start || !end || end < start) return null;
+  return Math.round((end.getTime() - start.getTime()) / (1000 * 60 * 60 * 24)) + 1;
+}
+
+export function buildComparisonRows(plans: QuotePlan[], tripDays: number | null): ComparisonRow[] {
+  const rows: ComparisonRow[] = [
+    makeRow('Precio', plans.map((plan) => formatMinorUnits(plan.priceMinor, plan.currency))),
+    makeRow('Cobertura', plans.map((plan) => formatCoverage(plan.coverageAmount, plan.currency))),
+    makeRow('Precio por día', plans.map((plan) => {
+      const total = plan.totalPriceMinor ?? plan.priceMinor;
+      return tripDays && total !== null ? formatMinorUnits(Math.round(total / tripDays), plan.currency) : 'N/A';
+    })),
+    makeRow('Precio por pasajero', plans.map((plan) => formatMinorUnits(plan.pricePerPassengerMinor, plan.currency))),
+  ];
+
+  // Align benefits by name, keeping the order in which they first appear
+  const benefitNames: string[] = [];
+  for (const plan of plans) {
+    for (const benefit of plan.benefits || []) {
+      if (!benefitNames.includes(benefit.name)) {
+        benefitNames.push(benefit.name);
+      }
+    }
+  }
+
+  for (const name of benefitNames) {
+    rows.push(makeRow(name, plans.map((plan) => {
+      const benefit = (plan.benefits || []).find((b) => b.name === name);
+      return benefit ? benefit.text : '—';
+    })));
+  }
+
+  return rows;
+}
+
+function makeRow(label: string, values: string[]): ComparisonRow {
+  return {
+    label,
+    values,
+    differs: new Set(values).size > 1,
+  };
+}
+
+function parseDayMonthYear(date: string): Date | null {
+  const match = date.match(/^(\d{2})\/(\d{2})\/(\d{4})$/);
+  if (!match) return null;
+  return new Date(Date.UTC(parseInt(match[3], 10), parseInt(match[2], 10) - 1, parseInt(match[1], 10)));
+}
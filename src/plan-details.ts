@@ -0,0 +1,137 @@
+import { QuotePlan } from './types';
+
+/**
+ * Helpers to turn the text of a plan card into a structured QuotePlan.
+ * Used by both the HTTP client and the Playwright bot so the two paths
+ * produce the same fields. Kept free of Node imports so the UI can use
+ * the formatting helpers too.
+ */
+
+export interface PlanCardText {
+  planId: string;
+  nameText: string; // Plan title, with the coverage on a following line when present
+  priceText: string; // Price as shown on the card, e.g. "USD 45.00"
+  priceLabel?: string; // Text right before the price element, e.g. "Precio por persona"
+  rawText?: string; // Full card text for auditing
+}
+
+const CURRENCY_ALIASES: { [symbol: string]: string } = {
+  'US$': 'USD',
+  '$': 'USD',
+  '€': 'EUR',
+};
+
+const PER_PASSENGER_PATTERN = /por\s+(pasajero|persona)|c\/u|p\/p|per\s+(passenger|person)/i;
+const TOTAL_PATTERN = /\btotal\b/i;
+
+export function buildQuotePlan(card: PlanCardText, passengers?: number): QuotePlan {
+  const lines = card.nameText
+    .split('\n')
+    .map((line) => line.replace(/\s+/g, ' ').trim())
+    .filter(Boolean);
+
+  const title = lines[0] || card.planId;
+  const coverageText = lines.slice(1).join(' ');
+  const coverage = parseMoney(coverageText);
+
+  const priceText = card.priceText.replace(/\s+/g, ' ').trim();
+  const price = parseMoney(priceText);
+  const currency = price?.currency || coverage?.currency || 'USD';
+  const priceMinor = price ? Math.round(price.amount * 100) : null;
+
+  // The card does not always say whether the price covers everyone; assume the total unless it says otherwise.
+  // Only the price and its label count: benefit lines such as "USD 1.200 por persona" describe coverage, not the price.
+  const context = `${priceText} ${card.priceLabel || ''}`;
+  const isPerPassenger = PER_PASSENGER_PATTERN.test(context) && !TOTAL_PATTERN.test(priceText);
+  const passengerCount = passengers && passengers > 0 ? passengers : null;
+
+  let pricePerPassengerMinor: number | null = null;
+  let totalPriceMinor: number | null = null;
+  if (priceMinor !== null) {
+    if (isPerPassenger) {
+      pricePerPassengerMinor = priceMinor;
+      totalPriceMinor = passengerCount ? priceMinor * passengerCount : null;
+    } else {
+      totalPriceMinor = priceMinor;
+      pricePerPassengerMinor = passengerCount ? Math.round(priceMinor / passengerCount) : null;
+    }
+  }
+
+  return {
+    planId: card.planId,
+    name: lines.join('\n'),
+    price: priceText && !/[A-Z]{3}|\$|€/.test(priceText) ? `${currency} ${priceText}` : priceText,
+    title,
+    coverageAmount: coverage ? coverage.amount : null,
+    currency,
+    priceMinor,
+    pricePerPassengerMinor,
+    totalPriceMinor,
+    rawText: (card.rawText || `${card.nameText}\n${card.priceText}`).trim(),
+    benefits: [],
+  };
+}
+
+/**
+ * Parse an amount such as "USD 45.00", "$ 50.000" or "1,234.56 EUR".
+ * Handles both Spanish (1.234,56) and English (1,234.56) separators.
+ */
+export function parseMoney(text: string): { amount: number; currency: string | null } | null {
+  if (!text) return null;
+
+  const numberMatch = text.match(/\d[\d.,]*/);
+  if (!numberMatch) return null;
+
+  const amount = parseLocalizedNumber(numberMatch[0]);
+  if (amount === null) return null;
+
+  const codeMatch = text.match(/\b([A-Z]{3})\b/);
+  let currency: string | null = codeMatch ? codeMatch[1] : null;
+  if (!currency) {
+    const symbol = Object.keys(CURRENCY_ALIASES).find((s) => text.includes(s));
+    currency = symbol ? CURRENCY_ALIASES[symbol] : null;
+  }
+
+  return { amount, currency };
+}
+
+function parseLocalizedNumber(raw: string): number | null {
+  const value = raw.replace(/[.,]$/, '');
+  const lastDot = value.lastIndexOf('.');
+  const lastComma = value.lastIndexOf(',');
+  let normalized: string;
+
+  if (lastDot !== -1 && lastComma !== -1) {
+    // Whichever separator comes last is the decimal one
+    const decimalSep = lastDot > lastComma ? '.' : ',';
+    const thousandsSep = decimalSep === '.' ? ',' : '.';
+    normalized = value.split(thousandsSep).join('').replace(decimalSep, '.');
+  } else if (lastDot !== -1 || lastComma !== -1) {
+    const sep = lastDot !== -1 ? '.' : ',';
+    const parts = value.split(sep);
+    // "50.000" or "1,250,000" are thousands; "45.00" or "45,5" are decimals
+    const isThousands = parts.length > 2 || parts[parts.length - 1].length === 3;
+    normalized = isThousands ? parts.join('') : parts.join('.');
+  } else {
+    normalized = value;
+  }
+
+  const amount = parseFloat(normalized);
+  return isNaN(amount) ? null : amount;
+}
+
+/**
+ * Format an amount in minor units, e.g. 4500 -> "USD 45.00"
+ */
+export function formatMinorUnits(minor: number | null | undefined, currency = 'USD'): string {
+  if (minor === null || minor === undefined) return 'N/A';
+  return `${currency} ${(minor / 100).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+/**
+ * Format a coverage limit, e.g. 50000 -> "USD 50,000"
+ */
+export function formatCoverage(amount: number | null | undefined, currency = 'USD'): string {
+  if (amount === null || amount === undefined) return 'N/A';
+  return `${currency} ${amount.toLocaleString('en-US', { maximumFractionDigits: 2 })}`;
+}
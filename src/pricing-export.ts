@@ -0,0 +1,151 @@
+import * as fs from 'fs';
+import { CatalogData, PricingExportFormat, PricingTable, PricingTableEntry, QuoteHistoryFilter, QuoteRecord } from './types';
+import { countTripDays } from './plan-comparison';
+import { formatMinorUnits } from './plan-details';
+import { loadCatalogData } from './catalog';
+import { getQuoteHistory, resolveHistoryFilter } from './quote-history';
+import { getAppConfig } from './config';
+import { log, setLogOutput } from './logger';
+import { readOption } from './cli-options';
+
+/**
+ * Export stored quotes in the layouts of PRICING_TABLE_FORMAT.md: the JSON
+ * pricing table (Option 1) or one CSV row per plan (Option 2).
+ * Only successful quotes with plans are exported; each quote is one entry
+ * whose date range is its own trip length.
+ */
+
+export const PRICING_TABLE_VERSION = '1.0';
+
+export const CSV_COLUMNS = [
+  'tripType', 'tripTypeId', 'originId', 'originName', 'destinationId', 'destinationName',
+  'minDays', 'maxDays', 'passengerCount', 'passengerAges', 'planId', 'planName', 'price', 'priceFormatted', 'agent',
+] as const;
+
+const DAILY_TRIP_TYPE = 'Viajes Por Día';
+
+export function buildPricingTable(records: QuoteRecord[], catalog: CatalogData, generatedAt: Date = new Date()): PricingTable {
+  const exported = records.filter((record) => record.success && record.plans.length > 0);
+  const entries = exported.map((record) => toPricingEntry(record, catalog));
+
+  const validFrom = exported.map((record) => record.createdAt).sort()[0] || generatedAt.toISOString();
+  const validTo = exported.map((record) => record.expiresAt).sort().reverse()[0] || generatedAt.toISOString();
+
+  return {
+    metadata: {
+      version: PRICING_TABLE_VERSION,
+      generatedAt: generatedAt.toISOString().replace(/\.\d{3}Z$/, 'Z'),
+      validFrom: validFrom.slice(0, 10),
+      validTo: validTo.slice(0, 10),
+      currency: exported[0]?.plans[0]?.currency || 'USD',
+    },
+    pricing: entries,
+  };
+}
+
+export function pricingTableToCsv(table: PricingTable): string {
+  const lines: string[] = [CSV_COLUMNS.join(',')];
+  for (const entry of table.pricing) {
+    for (const plan of entry.plans) {
+      lines.push([
+        csvField(entry.tripType),
+        csvField(entry.tripTypeId),
+        csvField(entry.origin.id),
+        csvField(entry.origin.name),
+        csvField(entry.destination.id),
+        csvField(entry.destination.name),
+        entry.dateRange.minDays,
+        entry.dateRange.maxDays,
+        entry.passengerConfig.count,
+        quoteCsv(JSON.stringify(entry.passengerConfig.ages)), // Always quoted, as in the spec: "[30]"
+        csvField(plan.planId),
+        csvField(plan.name),
+        plan.price.toFixed(2),
+        csvField(plan.priceFormatted),
+        csvField(entry.agent),
+      ].join(','));
+    }
+  }
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Render records in either format, ready to write to a file or an HTTP response
+ */
+export function exportQuotes(records: QuoteRecord[], format: PricingExportFormat, catalog: CatalogData = loadCatalogData()): string {
+  const table = buildPricingTable(records, catalog);
+  return format === 'csv' ? pricingTableToCsv(table) : JSON.stringify(table, null, 2) + '\n';
+}
+
+function toPricingEntry(record: QuoteRecord, catalog: CatalogData): PricingTableEntry {
+  const tripType = catalog.tripTypes.find((t) => t.text === record.tripType || t.value === record.tripType);
+  const origin = catalog.origins.find((o) => o.text === record.origin || o.value === record.origin);
+  const destination = (tripType ? catalog.destinations[tripType.value] || [] : [])
+    .find((d) => d.text === record.destination || d.value === record.destination);
+  const days = countTripDays(record.departureDate, record.returnDate) ?? 0;
+
+  return {
+    tripType: tripType?.text || record.tripType,
+    tripTypeId: tripType?.value || '',
+    origin: { id: origin?.value || '', name: origin?.text || record.origin },
+    destination: { id: destination?.value || '', name: destination?.text || record.destination },
+    dateRange: { minDays: days, maxDays: days, dateBased: tripType?.value === DAILY_TRIP_TYPE },
+    passengerConfig: { count: record.passengers, ages: record.config.ages || [] },
+    plans: record.plans
+      .filter((plan) => (plan.totalPriceMinor ?? plan.priceMinor) !== null)
+      .map((plan) => {
+        const totalMinor = (plan.totalPriceMinor ?? plan.priceMinor)!;
+        return {
+          planId: plan.planId,
+          name: plan.title,
+          price: totalMinor / 100,
+          priceFormatted: formatMinorUnits(totalMinor, plan.currency),
+        };
+      }),
+    agent: record.agent || getAppConfig().defaultAgent,
+  };
+}
+
+function csvField(text: string): string {
+  return /[",\n\r]/.test(text) ? quoteCsv(text) : text;
+}
+
+function quoteCsv(text: string): string {
+  return `"${text.replace(/"/g, '""')}"`;
+}
+
+// Run if this file is executed directly
+if (require.main === module) {
+  const args = process.argv.slice(2);
+
+  try {
+    const format = readOption(args, 'format') || 'csv';
+    if (format !== 'csv' && format !== 'json') {
+      throw new Error('Uso: export [--format csv|json] [--from AAAA-MM-DD] [--to AAAA-MM-DD] [--origin X] [--destination X] [--agent ID] [--out archivo]');
+    }
+    const output = readOption(args, 'out');
+    if (!output) {
+      setLogOutput('stderr'); // Keep stdout for the export itself so it can be piped
+    }
+    const filter: QuoteHistoryFilter = resolveHistoryFilter({
+      from: readOption(args, 'from'),
+      to: readOption(args, 'to'),
+      origin: readOption(args, 'origin'),
+      destination: readOption(args, 'destination'),
+      agent: readOption(args, 'agent'),
+      success: true,
+    });
+    const records = getQuoteHistory().findRecords(filter);
+    const contents = exportQuotes(records, format);
+
+    if (output) {
+      fs.writeFileSync(output, contents);
+      log(`💾 ${records.length} cotizaciones exportadas a ${output}`);
+    } else {
+      process.stdout.write(contents);
+    }
+  } catch (error) {
+    console.error('💥 Fatal error:', error);
+    process.exitCode = 1;
+  }
+}
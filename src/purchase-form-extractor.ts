@@ -0,0 +1,212 @@
+import { load, CheerioAPI, Cheerio } from 'cheerio';
+import type { Element } from 'domhandler';
+import { PurchaseForm, PurchaseFormField } from './types';
+
+/**
+ * Extract the buy/step-one purchase forms from static HTML, without a browser.
+ * The purchase-form endpoint runs it on the rendered page (after copying the live
+ * field values into the markup) and the drift check on the HTTP response. Mirrors the label strategies of the analysis dump in
+ * MercantilSegurosBot.clickComprarAndScrapeForm().
+ */
+
+// Fallback labels when the page does not associate one with the field
+export const FIELD_NAME_LABELS: { [key: string]: string } = {
+  'nombre': 'Nombre',
+  'apellido': 'Apellido',
+  'genero': 'Género',
+  'pais': 'País',
+  'email': 'Email',
+  'telefono': 'Teléfono',
+  'codigo': 'Código País',
+  'fecha': 'Fecha de Nacimiento',
+  'nacimiento': 'Fecha de Nacimiento',
+  'edad': 'Edad',
+  'identificacion': 'Tipo de Identificación',
+  'numero': 'Número',
+  'condiciones': 'Condiciones Médicas',
+  'medicas': 'Condiciones Médicas',
+  'prima': 'Prima Total a Pagar',
+  'agente': 'Agente/Agencia',
+  'contacto': 'Contacto de Emergencia',
+  'emergencia': 'Contacto de Emergencia',
+};
+
+const INTERNAL_NAME_PARTS = [
+  '[id]',
+  '[uuid]',
+  '[factor_wlc]',
+  '[factor_main]',
+  '[calculate_premium]',
+  '[free_passenger]',
+  '[plan][id]',
+  '[data_taxes]',
+];
+
+const INTERNAL_NAMES = [
+  'website_quotation[id]',
+  'website_quotation[search_id]',
+  'website_quotation[date_from]',
+  'website_quotation[date_to]',
+  'website_quotation[days]',
+  'website_quotation[months]',
+  'website_quotation[passengers]',
+  'website_quotation[general_agent]',
+  'website_quotation[product]',
+  'website_quotation[origin]',
+  'website_quotation[destination]',
+];
+
+/**
+ * Rider checkboxes (optional benefits) carry a data-premium attribute
+ */
+export function isRiderCheckbox(type: string | null, name: string | null, dataPremium: string | null): boolean {
+  return type === 'checkbox' && !!name?.includes('[riders]') && dataPremium !== null;
+}
+
+/**
+ * Hidden and bookkeeping fields are kept in the form data but never get a label
+ */
+export function isInternalField(type: string | null, name: string | null, dataPremium: string | null): boolean {
+  if (type === 'hidden') return true;
+  if (!name || isRiderCheckbox(type, name, dataPremium)) return false;
+  return (
+    INTERNAL_NAME_PARTS.some((part) => name.includes(part)) ||
+    (name.includes('[riders][') && type !== 'checkbox') ||
+    INTERNAL_NAMES.includes(name)
+  );
+}
+
+export function extractPurchaseForms(html: string): PurchaseForm[] {
+  const $ = load(html);
+
+  return $('form').toArray().map((form, index) => {
+    const $form = $(form);
+    const fields = $form
+      .find('input, select, textarea')
+      .toArray()
+      .map((input) => extractField($, $(input)));
+
+    return {
+      index,
+      id: $form.attr('id') || null,
+      action: $form.attr('action') || null,
+      method: $form.attr('method') || 'GET',
+      fields,
+    };
+  });
+}
+
+function extractField($: CheerioAPI, input: Cheerio<Element>): PurchaseFormField {
+  const tag = (input.prop('tagName') || '').toLowerCase();
+  const type = input.attr('type') || null;
+  const name = input.attr('name') || null;
+  const id = input.attr('id') || null;
+  const dataPremium = input.attr('data-premium') ?? null;
+  const value = readValue(input, tag);
+
+  const field: PurchaseFormField = {
+    tag,
+    type,
+    name,
+    id,
+    placeholder: input.attr('placeholder') || null,
+    label: null,
+    required: input.attr('required') !== undefined,
+    value,
+    options: null,
+    dataPremium,
+  };
+
+  if (isInternalField(type, name, dataPremium)) {
+    return field;
+  }
+
+  field.label = cleanLabel(findLabel($, input, id)) || labelFromName(name);
+
+  if (tag === 'select') {
+    field.options = input
+      .find('option')
+      .toArray()
+      .filter((option) => $(option).attr('value') !== undefined && $(option).text().trim())
+      .map((option) => ({ value: $(option).attr('value')!, text: $(option).text().trim() }));
+  }
+
+  return field;
+}
+
+// What the browser would submit: static HTML has no value attribute on selects or textareas
+function readValue(input: Cheerio<Element>, tag: string): string | null {
+  if (tag === 'textarea') {
+    return input.text() || null;
+  }
+  if (tag === 'select') {
+    // Like a browser, the last option marked selected wins, else the first option
+    const options = input.find('option');
+    const selected = options.filter('[selected]').last();
+    const option = selected.length > 0 ? selected : options.first();
+    if (option.length === 0) return null;
+    return option.attr('value') ?? option.text().trim();
+  }
+  return input.attr('value') ?? null;
+}
+
+function findLabel($: CheerioAPI, input: Cheerio<Element>, id: string | null): string | null {
+  // Strategy 1: label[for="id"] is the definitive link between label and input
+  if (id) {
+    const text = $('label').filter((_, label) => $(label).attr('for') === id).first().text().trim();
+    if (text && !text.includes('[') && !text.includes(']') && text.length < 100) {
+      return text;
+    }
+  }
+
+  // Strategy 2: the input is wrapped by its label
+  const parent = input.parent();
+  if (parent.is('label')) {
+    const text = parent.text().trim();
+    if (text) return text;
+  }
+
+  // Strategy 3: a label among the previous siblings
+  const siblingLabel = input.prevAll('label').first();
+  if (siblingLabel.length > 0 && siblingLabel.text().trim()) {
+    return siblingLabel.text().trim();
+  }
+
+  // Strategy 4: a label in the surrounding container, without crossing into another passenger's fieldset
+  const ownFieldset = input.closest('fieldset').get(0);
+  let container = input.parent();
+  for (let level = 0; level < 3 && container.length > 0 && !container.is('form, body'); level++) {
+    if (container.is('fieldset') && container.get(0) !== ownFieldset) break;
+
+    const containerLabel = container.find('label').first();
+    const labelFor = containerLabel.attr('for');
+    const text = containerLabel.text().trim();
+    if (text && !text.includes('[') && !text.includes(']') && (!labelFor || labelFor === id)) {
+      return text;
+    }
+    container = container.parent();
+  }
+
+  return null;
+}
+
+function cleanLabel(rawLabel: string | null): string | null {
+  if (!rawLabel) return null;
+  const cleaned = rawLabel
+    .replace(/\[.*?\]/g, '')
+    .replace(/website.*?quotation/gi, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+  // Long or bracket-heavy text is not a real label
+  if (!cleaned || cleaned.length > 50 || (cleaned.match(/[\[\]{}]/g) || []).length > 2) {
+    return null;
+  }
+  return cleaned;
+}
+
+function labelFromName(name: string | null): string | null {
+  if (!name) return null;
+  const nameLower = name.toLowerCase();
+  const key = Object.keys(FIELD_NAME_LABELS).find((k) => nameLower.includes(k));
+  return key ? FIELD_NAME_LABELS[key] : null;
+}
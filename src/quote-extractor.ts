@@ -0,0 +1,121 @@
+import { load, Cheerio } from 'cheerio';
+import type { AnyNode, Element } from 'domhandler';
+import { ExtractionIssue, QuotePlan } from './types';
+import { FieldSpec, QUOTE_EXTRACTION_SCHEMA, QuoteExtractionSchema } from './extraction-schema';
+import { buildQuotePlan } from './plan-details';
+import { htmlToText } from './html-text';
+import { attachBenefits } from './benefits';
+
+export interface QuoteExtractionResult {
+  schemaVersion: number;
+  plans: QuotePlan[];
+  issues: ExtractionIssue[];
+  noResults: boolean; // Mercantil said there are no plans for this search
+}
+
+/**
+ * Extract the quote plans from the quotation result HTML without a browser.
+ * The same function runs on the AJAX response (HTTP client) and on
+ * page.content() (Playwright bot), so both paths return identical plans.
+ */
+export function extractQuotePlans(
+  html: string,
+  passengers?: number,
+  schema: QuoteExtractionSchema = QUOTE_EXTRACTION_SCHEMA
+): QuoteExtractionResult {
+  const $ = load(html);
+  const issues: ExtractionIssue[] = [];
+  const plans: QuotePlan[] = [];
+
+  const noResults = $(schema.noResults.selector)
+    .toArray()
+    .some((el) => $(el).text().includes(schema.noResults.text));
+
+  const cardSelector = schema.planCard.candidates.find((candidate) => $(candidate.selector).length > 0);
+  if (!cardSelector) {
+    if (!noResults) {
+      issues.push(missingIssue('planCard', schema.planCard));
+    }
+    return { schemaVersion: schema.version, plans, issues, noResults };
+  }
+
+  $(cardSelector.selector).each((index, element) => {
+    const card = $(element);
+    const planId = resolveField(card, schema.fields.planId);
+    const name = resolveField(card, schema.fields.name);
+    const priceMatch = resolveFieldMatch(card, schema.fields.price);
+    const price = priceMatch ? priceMatch.value : null;
+
+    const missing = ([
+      ['planId', planId, schema.fields.planId],
+      ['name', name, schema.fields.name],
+      ['price', price, schema.fields.price],
+    ] as Array<[string, string | null, FieldSpec]>).filter(([, value, spec]) => spec.required && !value);
+
+    if (missing.length > 0) {
+      for (const [field, , spec] of missing) {
+        issues.push({ ...missingIssue(field, spec), planIndex: index });
+      }
+      return;
+    }
+
+    plans.push(buildQuotePlan(
+      {
+        planId: planId!,
+        nameText: name!,
+        priceText: price!,
+        priceLabel: priceMatch!.element.prev().text().replace(/\s+/g, ' ').trim(),
+        rawText: htmlToText(card.html() || ''),
+      },
+      passengers
+    ));
+  });
+
+  return {
+    schemaVersion: schema.version,
+    plans: attachBenefits($, plans, schema),
+    issues,
+    noResults,
+  };
+}
+
+/**
+ * One-line summary of extraction issues for logs and error messages
+ */
+export function describeExtractionIssues(result: QuoteExtractionResult): string {
+  const details = result.issues.map((issue) => {
+    const where = issue.planIndex !== undefined ? ` en el plan #${issue.planIndex + 1}` : '';
+    return `${issue.message}${where} (selectores: ${issue.selectors.join(' | ')})`;
+  });
+  return `Extracción fallida con el esquema v${result.schemaVersion}: ${details.join('; ')}`;
+}
+
+function resolveField(card: Cheerio<AnyNode>, spec: FieldSpec): string | null {
+  return resolveFieldMatch(card, spec)?.value ?? null;
+}
+
+// Value of the first candidate that yields one, with the element it came from
+function resolveFieldMatch(card: Cheerio<AnyNode>, spec: FieldSpec): { value: string; element: Cheerio<Element> } | null {
+  for (const candidate of spec.candidates) {
+    const match = card.find(candidate.selector).first();
+    if (match.length === 0) continue;
+
+    const value = candidate.attribute
+      ? match.attr(candidate.attribute)
+      : htmlToText(match.html() || '');
+    if (value && value.trim()) {
+      return { value: value.trim(), element: match };
+    }
+  }
+  return null;
+}
+
+function missingIssue(field: string, spec: FieldSpec): ExtractionIssue {
+  return {
+    field,
+    selectors: spec.candidates.map((candidate) =>
+      candidate.attribute ? `${candidate.selector}[${candidate.attribute}]` : candidate.selector
+    ),
+    message: `No se encontró ${spec.description}`,
+  };
+}
@@ -0,0 +1,348 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import { randomBytes, randomUUID } from 'crypto';
+import Database from 'better-sqlite3';
+import { CatalogData, QuoteConfig, QuoteHistoryFilter, QuoteHistoryRecord, QuoteRecord, QuoteRecordSummary, QuoteResult } from './types';
+import { getAppConfig } from './config';
+import { loadCatalogData } from './catalog';
+import { CatalogResolver } from './catalog-resolver';
+
+/**
+ * Server-side history of every quote request, stored in SQLite (history.dbPath, data/quotes.db by default).
+ * Each row keeps the submitted config, the plans returned, which strategy
+ * produced them, timing and any error, so past quotes can be looked up later.
+ */
+
+export const DEFAULT_HISTORY_LIMIT = 50;
+export const MAX_HISTORY_LIMIT = 500;
+// Validity given to links of quotes stored before they were shareable; new ones use history.shareTtlDays
+export const DEFAULT_SHARE_TTL_DAYS = 30;
+
+// Applied in order; the database's user_version records how many have run
+const MIGRATIONS: string[] = [
+  `CREATE TABLE quotes (
+    id TEXT PRIMARY KEY,
+    created_at TEXT NOT NULL,
+    trip_type TEXT NOT NULL,
+    origin TEXT NOT NULL,
+    destination TEXT NOT NULL,
+    departure_date TEXT NOT NULL,
+    return_date TEXT NOT NULL,
+    passengers INTEGER NOT NULL,
+    agent TEXT,
+    config TEXT NOT NULL,
+    success INTEGER NOT NULL,
+    strategy TEXT,
+    duration_ms INTEGER,
+    fallback_reason TEXT,
+    error TEXT,
+    validation_errors TEXT,
+    plan_count INTEGER NOT NULL DEFAULT 0,
+    lowest_price_minor INTEGER,
+    currency TEXT,
+    plans TEXT NOT NULL DEFAULT '[]',
+    quote_url TEXT,
+    schema_version INTEGER
+  );
+  CREATE INDEX quotes_created_at ON quotes (created_at);
+  CREATE INDEX quotes_origin ON quotes (origin);
+  CREATE INDEX quotes_destination ON quotes (destination);
+  CREATE INDEX quotes_agent ON quotes (agent);`,
+  // Shareable links: a random ID separate from the history ID, valid until expires_at
+  `ALTER TABLE quotes ADD COLUMN share_id TEXT;
+  ALTER TABLE quotes ADD COLUMN expires_at TEXT;
+  UPDATE quotes SET
+    share_id = lower(hex(randomblob(16))),
+    expires_at = strftime('%Y-%m-%dT%H:%M:%fZ', created_at, '+${DEFAULT_SHARE_TTL_DAYS} days');
+  CREATE UNIQUE INDEX quotes_share_id ON quotes (share_id);`,
+];
+
+interface QuoteRow {
+  id: string;
+  created_at: string;
+  trip_type: string;
+  origin: string;
+  destination: string;
+  departure_date: string;
+  return_date: string;
+  passengers: number;
+  agent: string | null;
+  config: string;
+  success: number;
+  strategy: string | null;
+  duration_ms: number | null;
+  fallback_reason: string | null;
+  error: string | null;
+  validation_errors: string | null;
+  plan_count: number;
+  lowest_price_minor: number | null;
+  currency: string | null;
+  plans: string;
+  quote_url: string | null;
+  schema_version: number | null;
+  share_id: string;
+  expires_at: string;
+}
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+const SUMMARY_COLUMNS = `id, created_at, trip_type, origin, destination, departure_date, return_date,
+  passengers, agent, success, strategy, duration_ms, plan_count, lowest_price_minor, currency, error`;
+
+export class QuoteHistory {
+  private db: Database.Database;
+
+  constructor(dbPath: string = getAppConfig().history.dbPath) {
+    if (dbPath !== ':memory:') {
+      fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+    }
+    this.db = new Database(dbPath);
+    this.db.pragma('journal_mode = WAL');
+    this.migrate();
+  }
+
+  /**
+   * Store a quote request and its result; returns the stored record
+   */
+  record(config: QuoteConfig, result: QuoteResult, createdAt: Date = new Date()): QuoteRecord {
+    const plans = result.quoteData?.plans || [];
+    const prices = plans.map((plan) => plan.totalPriceMinor ?? plan.priceMinor).filter((price): price is number => price !== null);
+    const lowestPrice = prices.length > 0 ? Math.min(...prices) : null;
+
+    const row: QuoteRow = {
+      id: randomUUID(),
+      created_at: createdAt.toISOString(),
+      trip_type: String(config.tripType ?? ''),
+      origin: String(config.origin ?? ''),
+      destination: String(config.destination ?? ''),
+      departure_date: String(config.departureDate ?? ''),
+      return_date: String(config.returnDate ?? ''),
+      passengers: Number.isFinite(config.passengers) ? config.passengers : 0,
+      agent: config.agent ?? null,
+      config: JSON.stringify(config),
+      success: result.success ? 1 : 0,
+      strategy: result.strategy ?? null,
+      duration_ms: result.durationMs ?? null,
+      fallback_reason: result.fallbackReason ?? null,
+      error: result.error ?? null,
+      validation_errors: result.validationErrors ? JSON.stringify(result.validationErrors) : null,
+      plan_count: plans.length,
+      lowest_price_minor: lowestPrice,
+      currency: plans[0]?.currency ?? null,
+      plans: JSON.stringify(plans),
+      quote_url: result.quoteData?.url ?? null,
+      schema_version: result.quoteData?.schemaVersion ?? null,
+      share_id: randomBytes(16).toString('hex'),
+      expires_at: new Date(createdAt.getTime() + getAppConfig().history.shareTtlDays * DAY_MS).toISOString(),
+    };
+
+    const columns = Object.keys(row);
+    this.db
+      .prepare(`INSERT INTO quotes (${columns.join(', ')}) VALUES (${columns.map((c) => `@${c}`).join(', ')})`)
+      .run(row);
+    return toRecord(row);
+  }
+
+  get(id: string): QuoteRecord | null {
+    const row = this.db.prepare('SELECT * FROM quotes WHERE id = ?').get(id) as QuoteRow | undefined;
+    return row ? toRecord(row) : null;
+  }
+
+  /**
+   * Look up a quote by its share link ID; expired links are still returned, callers check expiresAt
+   */
+  getByShareId(shareId: string): QuoteRecord | null {
+    const row = this.db.prepare('SELECT * FROM quotes WHERE share_id = ?').get(shareId) as QuoteRow | undefined;
+    return row ? toRecord(row) : null;
+  }
+
+  /**
+   * Newest first, with the total count for pagination
+   */
+  list(filter: QuoteHistoryFilter = {}): { items: QuoteRecordSummary[]; total: number; limit: number; offset: number } {
+    const { where, params } = buildWhere(filter);
+    const limit = Math.min(Math.max(Math.floor(filter.limit || DEFAULT_HISTORY_LIMIT), 1), MAX_HISTORY_LIMIT);
+    const offset = Math.max(Math.floor(filter.offset || 0), 0);
+
+    const { total } = this.db.prepare(`SELECT COUNT(*) AS total FROM quotes ${where}`).get(params) as { total: number };
+    const rows = this.db
+      .prepare(`SELECT ${SUMMARY_COLUMNS} FROM quotes ${where} ORDER BY created_at DESC LIMIT @limit OFFSET @offset`)
+      .all({ ...params, limit, offset }) as QuoteRow[];
+
+    return { items: rows.map(toSummary), total, limit, offset };
+  }
+
+  /**
+   * Full records with their plans, oldest first, for exports; only limited when the filter asks for it
+   */
+  findRecords(filter: QuoteHistoryFilter = {}): QuoteRecord[] {
+    const { where, params } = buildWhere(filter);
+    const paging = filter.limit ? 'LIMIT @limit OFFSET @offset' : '';
+    const rows = this.db
+      .prepare(`SELECT * FROM quotes ${where} ORDER BY created_at ASC ${paging}`)
+      .all(filter.limit ? { ...params, limit: Math.floor(filter.limit), offset: Math.floor(filter.offset || 0) } : params) as QuoteRow[];
+    return rows.map(toRecord);
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  private migrate(): void {
+    const version = this.db.pragma('user_version', { simple: true }) as number;
+    for (let i = version; i < MIGRATIONS.length; i++) {
+      this.db.transaction(() => {
+        this.db.exec(MIGRATIONS[i]);
+        this.db.pragma(`user_version = ${i + 1}`);
+      })();
+    }
+  }
+}
+
+let history: QuoteHistory | null = null;
+
+export function getQuoteHistory(): QuoteHistory {
+  if (!history) {
+    history = new QuoteHistory();
+  }
+  return history;
+}
+
+/**
+ * Record a quote without letting a storage problem fail the request.
+ * Returns the history and share IDs to merge into the API response.
+ */
+export function recordQuote(config: QuoteConfig, result: QuoteResult): Pick<QuoteResult, 'quoteId' | 'shareId' | 'shareExpiresAt'> {
+  try {
+    const record = getQuoteHistory().record(config, result);
+    return { quoteId: record.id, shareId: record.shareId, shareExpiresAt: record.expiresAt };
+  } catch (error) {
+    console.warn('⚠️ No se pudo guardar la cotización en el historial:', error);
+    return {};
+  }
+}
+
+function buildWhere(filter: QuoteHistoryFilter): { where: string; params: Record<string, string | number> } {
+  const conditions: string[] = [];
+  const params: Record<string, string | number> = {};
+
+  if (filter.from) {
+    conditions.push('created_at >= @from');
+    params.from = startOfDay(filter.from);
+  }
+  if (filter.to) {
+    conditions.push('created_at < @to');
+    params.to = startOfNextDay(filter.to);
+  }
+  if (filter.origin) {
+    conditions.push('origin = @origin COLLATE NOCASE');
+    params.origin = filter.origin;
+  }
+  if (filter.destination) {
+    conditions.push('destination = @destination COLLATE NOCASE');
+    params.destination = filter.destination;
+  }
+  if (filter.agent) {
+    conditions.push('agent = @agent');
+    params.agent = filter.agent;
+  }
+  if (filter.success !== undefined) {
+    conditions.push('success = @success');
+    params.success = filter.success ? 1 : 0;
+  }
+
+  return { where: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '', params };
+}
+
+function toSummary(row: QuoteRow): QuoteRecordSummary {
+  return {
+    id: row.id,
+    createdAt: row.created_at,
+    tripType: row.trip_type,
+    origin: row.origin,
+    destination: row.destination,
+    departureDate: row.departure_date,
+    returnDate: row.return_date,
+    passengers: row.passengers,
+    agent: row.agent,
+    success: row.success === 1,
+    strategy: row.strategy as QuoteRecordSummary['strategy'],
+    durationMs: row.duration_ms,
+    planCount: row.plan_count,
+    lowestPriceMinor: row.lowest_price_minor,
+    currency: row.currency,
+    error: row.error,
+  };
+}
+
+function toRecord(row: QuoteRow): QuoteRecord {
+  return {
+    ...toSummary(row),
+    config: JSON.parse(row.config),
+    plans: JSON.parse(row.plans),
+    quoteUrl: row.quote_url,
+    schemaVersion: row.schema_version,
+    fallbackReason: row.fallback_reason,
+    validationErrors: row.validation_errors ? JSON.parse(row.validation_errors) : [],
+    shareId: row.share_id,
+    expiresAt: row.expires_at,
+  };
+}
+
+/**
+ * Quotes are stored with catalog names, so map free-text origin and destination filters
+ * onto them when they resolve unambiguously ("panama" -> "Panamá"). Shared by the
+ * history API and the CLIs.
+ */
+export function resolveHistoryFilter(filter: QuoteHistoryFilter): QuoteHistoryFilter {
+  if (!filter.origin && !filter.destination) {
+    return filter;
+  }
+
+  let catalog: CatalogData;
+  try {
+    catalog = loadCatalogData();
+  } catch {
+    return filter; // Without a catalog the filters are matched as given
+  }
+
+  const resolver = new CatalogResolver(catalog);
+  const resolved = { ...filter };
+  if (filter.origin) {
+    const match = resolver.resolveOrigin(filter.origin);
+    if (match.status === 'matched') {
+      resolved.origin = match.option.text;
+    }
+  }
+  if (filter.destination) {
+    const match = catalog.tripTypes
+      .map((tripType) => resolver.resolveDestination(filter.destination!, tripType.value))
+      .find((candidate) => candidate.status === 'matched');
+    if (match && match.status === 'matched') {
+      resolved.destination = match.option.text;
+    }
+  }
+  return resolved;
+}
+
+/**
+ * Drop the share ID before a record leaves through the history API, so history IDs cannot be turned into share links
+ */
+export function toHistoryRecord(record: QuoteRecord): QuoteHistoryRecord {
+  const { shareId: _shareId, ...historyRecord } = record;
+  return historyRecord;
+}
+
+export function isShareExpired(record: QuoteRecord, now: Date = new Date()): boolean {
+  return new Date(record.expiresAt).getTime() <= now.getTime();
+}
+
+function startOfDay(date: string): string {
+  return new Date(`${date}T00:00:00.000Z`).toISOString();
+}
+
+function startOfNextDay(date: string): string {
+  const next = new Date(`${date}T00:00:00.000Z`);
+  next.setUTCDate(next.getUTCDate() + 1);
+  return next.toISOString();
+}
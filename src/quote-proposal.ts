@@ -0,0 +1,135 @@
+import { AgentEntry, QuoteRecord } from './types';
+import { formatCoverage, formatMinorUnits } from './plan-details';
+import { getBrowserManager } from './browser-manager';
+import { countTripDays } from './plan-comparison';
+
+/**
+ * Quote proposal for clients: an HTML template with the trip, every plan with
+ * price and coverage, the agent and the validity date, printed to PDF by the
+ * shared headless Chromium.
+ */
+
+export const PROPOSAL_DISCLAIMER =
+  'Esta propuesta es informativa y no constituye una póliza ni un contrato de seguro. ' +
+  'Los precios y coberturas están sujetos a las condiciones generales y particulares de Mercantil Seguros ' +
+  'vigentes al momento de la emisión, y pueden cambiar después de la fecha de validez indicada.';
+
+export function renderProposalHtml(record: QuoteRecord, agent: AgentEntry | null = null): string {
+  const tripDays = countTripDays(record.departureDate, record.returnDate);
+  const ages = record.config.ages?.length ? record.config.ages.join(', ') : null;
+
+  const details: Array<[string, string]> = [
+    ['Tipo de viaje', record.tripType],
+    ['Origen', record.origin],
+    ['Destino', record.destination],
+    ['Salida', record.departureDate],
+    ['Regreso', record.returnDate],
+    ['Días de viaje', tripDays !== null ? String(tripDays) : 'N/A'],
+    ['Pasajeros', ages ? `${record.passengers} (edades: ${ages})` : String(record.passengers)],
+  ];
+
+  const planRows = record.plans.map((plan) => {
+    const total = plan.totalPriceMinor ?? plan.priceMinor;
+    const benefits = (plan.benefits || [])
+      .map((benefit) => `<li><strong>${escapeHtml(benefit.name)}:</strong> ${escapeHtml(benefit.text)}</li>`)
+      .join('');
+    return `
+      <tr>
+        <td>
+          <div class="plan-title">${escapeHtml(plan.title)}</div>
+          ${benefits ? `<ul class="benefits">${benefits}</ul>` : ''}
+        </td>
+        <td>${escapeHtml(formatCoverage(plan.coverageAmount, plan.currency))}</td>
+        <td>${escapeHtml(formatMinorUnits(plan.pricePerPassengerMinor, plan.currency))}</td>
+        <td class="price">${escapeHtml(formatMinorUnits(total, plan.currency))}</td>
+      </tr>`;
+  }).join('');
+
+  return `<!DOCTYPE html>
+<html lang="es">
+<head>
+<meta charset="utf-8">
+<title>Propuesta de Seguro de Viaje</title>
+<style>
+  * { box-sizing: border-box; margin: 0; padding: 0; }
+  body { font-family: -apple-system, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; color: #333; font-size: 11pt; }
+  header { background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; padding: 24px 32px; }
+  header h1 { font-size: 20pt; margin-bottom: 4px; }
+  header p { opacity: 0.9; }
+  main { padding: 24px 32px; }
+  h2 { color: #667eea; font-size: 13pt; margin: 20px 0 10px; text-transform: uppercase; letter-spacing: 0.5px; }
+  .details { display: grid; grid-template-columns: repeat(3, 1fr); gap: 8px; }
+  .detail { border: 1px solid #e0e0e0; border-radius: 6px; padding: 8px 12px; }
+  .detail .label { color: #667eea; font-size: 8pt; font-weight: 600; text-transform: uppercase; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { text-align: left; vertical-align: top; padding: 8px; border-bottom: 1px solid #e0e0e0; }
+  th { color: #667eea; font-size: 9pt; text-transform: uppercase; }
+  tr { page-break-inside: avoid; }
+  .plan-title { font-weight: 600; }
+  .benefits { margin: 4px 0 0 16px; font-size: 8.5pt; color: #555; }
+  .price { font-weight: 700; white-space: nowrap; }
+  .validity { margin-top: 20px; padding: 12px; background: #f5f5f5; border-radius: 6px; }
+  .disclaimer { margin-top: 16px; font-size: 8pt; color: #777; }
+</style>
+</head>
+<body>
+  <header>
+    <h1>Propuesta de Seguro de Viaje</h1>
+    <p>Mercantil Seguros · Cotizado el ${escapeHtml(formatDate(record.createdAt))}</p>
+  </header>
+  <main>
+    <h2>Detalles del viaje</h2>
+    <div class="details">
+      ${details.map(([label, value]) => `<div class="detail"><div class="label">${escapeHtml(label)}</div>${escapeHtml(value)}</div>`).join('')}
+    </div>
+
+    <h2>Planes disponibles</h2>
+    <table>
+      <thead>
+        <tr><th>Plan</th><th>Cobertura</th><th>Por pasajero</th><th>Total</th></tr>
+      </thead>
+      <tbody>${planRows}</tbody>
+    </table>
+
+    ${agent ? `
+    <h2>Su agente</h2>
+    <p>${escapeHtml(agent.name)}${agent.mrpCode ? ` (${escapeHtml(agent.mrpCode)})` : ''}</p>` : ''}
+
+    <div class="validity">
+      <strong>Válida hasta:</strong> ${escapeHtml(formatDate(record.expiresAt))}
+    </div>
+    <p class="disclaimer">${escapeHtml(PROPOSAL_DISCLAIMER)}</p>
+  </main>
+</body>
+</html>`;
+}
+
+/**
+ * Print the proposal to an A4 PDF
+ */
+export async function generateProposalPdf(record: QuoteRecord, agent: AgentEntry | null = null): Promise<Buffer> {
+  const lease = await getBrowserManager().acquirePage();
+  try {
+    await lease.page.setContent(renderProposalHtml(record, agent), { waitUntil: 'load' });
+    return await lease.page.pdf({
+      format: 'A4',
+      printBackground: true,
+      margin: { top: '0', right: '0', bottom: '16mm', left: '0' },
+    });
+  } finally {
+    await lease.release();
+  }
+}
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleDateString('es', { day: '2-digit', month: 'long', year: 'numeric' });
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
@@ -0,0 +1,85 @@
+import { QuoteConfig, QuoteResult, QuoteStrategy } from './types';
+import { getSessionPool } from './session-pool';
+import { MercantilSegurosBot } from './index';
+
+export interface QuoteStrategyOptions {
+  strategy?: QuoteStrategy | 'auto'; // 'auto' tries HTTP first and falls back to the browser
+}
+
+/**
+ * Generate a quote using the fastest path available.
+ * The direct HTTP client is tried first; the Playwright bot is only launched
+ * when the HTTP call fails or comes back without any plans.
+ */
+export async function generateQuoteWithFallback(
+  config: QuoteConfig,
+  options: QuoteStrategyOptions = {}
+): Promise<QuoteResult> {
+  const strategy = options.strategy || 'auto';
+  const startTime = Date.now();
+
+  if (strategy === 'browser') {
+    const result = await generateQuoteWithBrowser(config);
+    return { ...result, strategy: 'browser', durationMs: Date.now() - startTime };
+  }
+
+  const httpResult = await generateQuoteWithHttp(config);
+  const fallbackReason = getFallbackReason(httpResult);
+
+  if (!fallbackReason || strategy === 'http') {
+    return { ...httpResult, strategy: 'http', durationMs: Date.now() - startTime };
+  }
+
+  console.warn(`⚠️ Cotización HTTP no utilizable (${fallbackReason}), usando el navegador...`);
+  const browserResult = await generateQuoteWithBrowser(config);
+
+  return {
+    ...browserResult,
+    strategy: 'browser',
+    durationMs: Date.now() - startTime,
+    fallbackReason,
+  };
+}
+
+function getFallbackReason(result: QuoteResult): string | null {
+  if (!result.success) {
+    return result.error || 'HTTP request failed';
+  }
+  if (!result.quoteData?.plans || result.quoteData.plans.length === 0) {
+    return 'HTTP response contained no plans';
+  }
+  return null;
+}
+
+async function generateQuoteWithHttp(config: QuoteConfig): Promise<QuoteResult> {
+  try {
+    // Pooled sessions already hold cookies and tokens, so only the POST is paid here
+    return await getSessionPool().withSession(
+      (client) => client.generateQuote(config),
+      (result) => !result.success
+    );
+  } catch (error) {
+    console.error('❌ No se pudo obtener una sesión HTTP:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+async function generateQuoteWithBrowser(config: QuoteConfig): Promise<QuoteResult> {
+  const bot = new MercantilSegurosBot();
+
+  try {
+    await bot.initialize();
+    return await bot.generateQuote(config);
+  } catch (error) {
+    console.error('❌ Error generando cotización con el navegador:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  } finally {
+    await bot.close().catch(() => {});
+  }
+}
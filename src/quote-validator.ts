@@ -0,0 +1,201 @@
+import { CatalogData, CatalogOption, QuoteConfig, QuoteValidationCode, QuoteValidationError } from './types';
+import { CatalogMatch, CatalogResolver, resolveCatalogOption } from './catalog-resolver';
+
+/**
+ * Offline validation of a QuoteConfig against the scraped catalog.
+ * Mercantil quietly substitutes defaults for values it does not recognize,
+ * so anything that would not resolve to a catalog option is rejected up front.
+ */
+
+export const MIN_PASSENGERS = 1;
+export const MAX_PASSENGERS = 8;
+export const MIN_AGE = 0;
+export const MAX_AGE = 99;
+
+export interface ResolvedQuoteConfig {
+  config: QuoteConfig; // Catalog texts and IDs in place of the user's input
+  errors: QuoteValidationError[];
+}
+
+export function validateQuoteConfig(config: QuoteConfig, catalog: CatalogData): QuoteValidationError[] {
+  return resolveQuoteConfig(config, catalog).errors;
+}
+
+/**
+ * Validate a config and map its free-text fields to the exact catalog entries,
+ * so both quote paths submit what Mercantil expects ("Panama" -> "Panamá")
+ */
+export function resolveQuoteConfig(config: QuoteConfig, catalog: CatalogData): ResolvedQuoteConfig {
+  const resolver = new CatalogResolver(catalog);
+  const errors: QuoteValidationError[] = [];
+  const resolved: QuoteConfig = { ...config };
+
+  const tripType = resolver.resolveTripType(config.tripType);
+  if (tripType.status === 'matched') {
+    resolved.tripType = tripType.option.text as QuoteConfig['tripType'];
+  } else {
+    errors.push(matchError(tripType, 'tripType', 'INVALID_TRIP_TYPE', 'Tipo de viaje desconocido', catalog.tripTypes));
+  }
+
+  const origin = resolver.resolveOrigin(config.origin);
+  if (origin.status === 'matched') {
+    resolved.origin = origin.option.text;
+  } else {
+    errors.push(matchError(origin, 'origin', 'UNKNOWN_ORIGIN', 'Origen desconocido'));
+  }
+
+  // Destinations are only checked against the trip type when the trip type itself is valid
+  if (tripType.status === 'matched') {
+    const allowed = catalog.destinations[tripType.option.value] || [];
+    const destination = resolveCatalogOption(allowed, config.destination);
+    if (destination.status === 'matched') {
+      resolved.destination = destination.option.text;
+    } else {
+      const elsewhere = destination.status === 'not_found' && Object.values(catalog.destinations)
+        .some((options) => resolveCatalogOption(options, config.destination).status === 'matched');
+      errors.push(elsewhere
+        ? {
+            code: 'DESTINATION_NOT_ALLOWED',
+            field: 'destination',
+            message: `El destino "${config.destination}" no está disponible para "${tripType.option.text}" (opciones: ${allowed.map((d) => d.text).join(', ')})`,
+            value: config.destination,
+            candidates: allowed.map((d) => d.text),
+          }
+        : matchError(destination, 'destination', 'UNKNOWN_DESTINATION', 'Destino desconocido', allowed));
+    }
+  }
+
+  if (config.agent !== undefined) {
+    const agent = resolver.resolveAgent(String(config.agent));
+    if (agent.status === 'matched') {
+      resolved.agent = agent.option.value;
+    } else {
+      errors.push(matchError(agent, 'agent', 'UNKNOWN_AGENT', 'Agente desconocido'));
+    }
+  }
+
+  const passengersValid = Number.isInteger(config.passengers) &&
+    config.passengers >= MIN_PASSENGERS &&
+    config.passengers <= MAX_PASSENGERS;
+  if (!passengersValid) {
+    errors.push({
+      code: 'INVALID_PASSENGERS',
+      field: 'passengers',
+      message: `El número de pasajeros debe estar entre ${MIN_PASSENGERS} y ${MAX_PASSENGERS}`,
+      value: config.passengers,
+    });
+  }
+
+  if (!Array.isArray(config.ages)) {
+    errors.push({
+      code: 'AGES_MISMATCH',
+      field: 'ages',
+      message: 'Las edades deben ser una lista',
+      value: config.ages,
+    });
+  } else {
+    if (passengersValid && config.ages.length !== config.passengers) {
+      errors.push({
+        code: 'AGES_MISMATCH',
+        field: 'ages',
+        message: `Se esperaban ${config.passengers} edades y se recibieron ${config.ages.length}`,
+        value: config.ages,
+      });
+    }
+    config.ages.forEach((age, index) => {
+      if (!Number.isInteger(age) || age < MIN_AGE || age > MAX_AGE) {
+        errors.push({
+          code: 'INVALID_AGE',
+          field: 'ages',
+          message: `La edad del pasajero ${index + 1} debe estar entre ${MIN_AGE} y ${MAX_AGE}`,
+          value: age,
+        });
+      }
+    });
+  }
+
+  const departure = parseDayMonthYear(config.departureDate);
+  if (!departure) {
+    errors.push({
+      code: 'INVALID_DATE',
+      field: 'departureDate',
+      message: `Fecha de salida inválida: "${config.departureDate}" (formato DD/MM/YYYY)`,
+      value: config.departureDate,
+    });
+  }
+  const returnDate = parseDayMonthYear(config.returnDate);
+  if (!returnDate) {
+    errors.push({
+      code: 'INVALID_DATE',
+      field: 'returnDate',
+      message: `Fecha de regreso inválida: "${config.returnDate}" (formato DD/MM/YYYY)`,
+      value: config.returnDate,
+    });
+  }
+  if (departure && returnDate && returnDate.getTime() <= departure.getTime()) {
+    errors.push({
+      code: 'RETURN_BEFORE_DEPARTURE',
+      field: 'returnDate',
+      message: `La fecha de regreso (${config.returnDate}) debe ser posterior a la de salida (${config.departureDate})`,
+      value: config.returnDate,
+    });
+  }
+
+  return { config: resolved, errors };
+}
+
+/**
+ * One-line summary of validation errors for logs and API responses
+ */
+export function describeValidationErrors(errors: QuoteValidationError[]): string {
+  return `Configuración de cotización inválida: ${errors.map((error) => error.message).join('; ')}`;
+}
+
+/**
+ * Parse a DD/MM/YYYY date, rejecting impossible calendar dates such as 31/02/2026
+ */
+export function parseDayMonthYear(value: string): Date | null {
+  const match = typeof value === 'string' ? value.match(/^(\d{2})\/(\d{2})\/(\d{4})$/) : null;
+  if (!match) return null;
+
+  const [, day, month, year] = match.map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date;
+}
+
+function matchError(
+  match: CatalogMatch,
+  field: keyof QuoteConfig,
+  notFoundCode: QuoteValidationCode,
+  notFoundMessage: string,
+  allOptions?: CatalogOption[]
+): QuoteValidationError {
+  if (match.status === 'ambiguous') {
+    const candidates = match.candidates.map((candidate) => candidate.option.text);
+    return {
+      code: 'AMBIGUOUS_MATCH',
+      field,
+      message: `"${match.query}" es ambiguo (coincide con: ${candidates.join(', ')})`,
+      value: match.query,
+      candidates,
+    };
+  }
+
+  // Short option lists are listed in full, long ones only by their closest entries
+  const candidates = allOptions
+    ? allOptions.map((option) => option.text)
+    : match.status === 'not_found' ? match.candidates.map((candidate) => candidate.option.text) : [];
+  const hint = candidates.length > 0
+    ? allOptions ? ` (opciones: ${candidates.join(', ')})` : ` (¿quiso decir: ${candidates.join(', ')}?)`
+    : '';
+  return {
+    code: notFoundCode,
+    field,
+    message: `${notFoundMessage}: "${match.query}"${hint}`,
+    value: match.query,
+    candidates,
+  };
+}
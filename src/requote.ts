@@ -0,0 +1,95 @@
+import { QuoteConfig, QuotePlan, PlanPriceChange } from './types';
+import { parseDayMonthYear } from './quote-validator';
+
+/**
+ * Re-quoting a stored quote: the same QuoteConfig with its dates moved, and a
+ * per-plan comparison of the new prices against the ones recorded at the time.
+ */
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+/**
+ * Move both trip dates by the same number of days, keeping the trip length
+ */
+export function shiftQuoteDates(config: QuoteConfig, days: number): QuoteConfig {
+  return {
+    ...config,
+    departureDate: shiftDate(config.departureDate, days),
+    returnDate: shiftDate(config.returnDate, days),
+  };
+}
+
+/**
+ * Days from the original request to today, so a re-quote keeps the same lead time before departure
+ */
+export function daysSinceQuote(createdAt: string, now: Date = new Date()): number {
+  const created = new Date(createdAt);
+  const start = Date.UTC(created.getUTCFullYear(), created.getUTCMonth(), created.getUTCDate());
+  const today = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+  return Math.max(0, Math.round((today - start) / DAY_MS));
+}
+
+/**
+ * Pair plans by ID (falling back to title) and compare their total prices
+ */
+export function diffPlanPrices(previous: QuotePlan[], current: QuotePlan[]): PlanPriceChange[] {
+  const changes: PlanPriceChange[] = [];
+  const unmatched = [...current];
+
+  for (const before of previous) {
+    const index = unmatched.findIndex((plan) =>
+      before.planId ? plan.planId === before.planId : plan.title === before.title
+    );
+    const after = index >= 0 ? unmatched.splice(index, 1)[0] : null;
+    changes.push(makeChange(before, after));
+  }
+  for (const after of unmatched) {
+    changes.push(makeChange(null, after));
+  }
+
+  return changes;
+}
+
+function makeChange(before: QuotePlan | null, after: QuotePlan | null): PlanPriceChange {
+  const plan = (after || before)!;
+  const previousMinor = before ? totalPrice(before) : null;
+  const currentMinor = after ? totalPrice(after) : null;
+
+  let status: PlanPriceChange['status'];
+  if (!before) {
+    status = 'added';
+  } else if (!after) {
+    status = 'removed';
+  } else if (previousMinor === currentMinor || previousMinor === null || currentMinor === null) {
+    status = 'unchanged';
+  } else {
+    status = currentMinor > previousMinor ? 'up' : 'down';
+  }
+
+  const differenceMinor = previousMinor !== null && currentMinor !== null ? currentMinor - previousMinor : null;
+  return {
+    planId: plan.planId,
+    title: plan.title,
+    currency: plan.currency,
+    previousMinor,
+    currentMinor,
+    differenceMinor,
+    percentChange: differenceMinor !== null && previousMinor ? Math.round((differenceMinor / previousMinor) * 1000) / 10 : null,
+    status,
+  };
+}
+
+function totalPrice(plan: QuotePlan): number | null {
+  return plan.totalPriceMinor ?? plan.priceMinor;
+}
+
+function shiftDate(date: string, days: number): string {
+  const parsed = parseDayMonthYear(date);
+  if (!parsed) {
+    return date; // Left as is; validation reports it
+  }
+  parsed.setUTCDate(parsed.getUTCDate() + days);
+  const day = String(parsed.getUTCDate()).padStart(2, '0');
+  const month = String(parsed.getUTCMonth() + 1).padStart(2, '0');
+  return `${day}/${month}/${parsed.getUTCFullYear()}`;
+}
@@ -0,0 +1,289 @@
+import { MercantilSegurosAPIClient } from './api-client';
+import { getAppConfig } from './config';
+import { log } from './logger';
+
+export interface SessionPoolOptions {
+  size?: number; // Number of warm sessions to keep
+  maxAgeMs?: number; // Sessions older than this are recycled
+  maxErrors?: number; // Sessions with this many failed quotes are recycled
+  acquireTimeoutMs?: number; // How long a caller waits for a free session
+}
+
+export interface PooledSession {
+  id: number;
+  client: MercantilSegurosAPIClient;
+  createdAt: number;
+  lastUsedAt: number;
+  uses: number;
+  errorCount: number;
+}
+
+export interface SessionPoolStats {
+  size: number; // Configured target size
+  total: number; // Sessions currently alive (idle + in use)
+  idle: number;
+  inUse: number;
+  creating: number;
+  waiting: number; // Callers queued for a session
+  created: number;
+  recycled: number;
+}
+
+interface Waiter {
+  resolve: (session: PooledSession) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+  settled: boolean; // Set once the caller got a session or gave up waiting
+}
+
+const DEFAULT_OPTIONS: Required<SessionPoolOptions> = {
+  size: 3,
+  maxAgeMs: 10 * 60 * 1000,
+  maxErrors: 3,
+  acquireTimeoutMs: 30000,
+};
+
+/**
+ * Pool of pre-warmed Mercantil HTTP sessions.
+ * Each session is an API client that already holds the cookies and hidden
+ * form tokens of the quotation page, so a quote usually only costs the POST.
+ */
+export class SessionPool {
+  private options: Required<SessionPoolOptions>;
+  private idle: PooledSession[] = [];
+  private inUse = new Set<PooledSession>();
+  private waiters: Waiter[] = [];
+  private creating = 0;
+  private nextId = 1;
+  private created = 0;
+  private recycled = 0;
+  // Set by warm(): recycled sessions are then replaced right away instead of on the next acquire()
+  private keepWarm = false;
+
+  constructor(options: SessionPoolOptions = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Fill the pool up to its configured size and keep it full from then on.
+   * Only the long-running server calls this; otherwise sessions open on demand.
+   * Failures are logged and left for the next acquire() to retry.
+   */
+  async warm(): Promise<void> {
+    this.keepWarm = true;
+    await this.fill();
+  }
+
+  private async fill(): Promise<void> {
+    const missing = this.options.size - this.totalCount();
+    const tasks: Promise<void>[] = [];
+
+    for (let i = 0; i < missing; i++) {
+      tasks.push(
+        this.createSession()
+          .then((session) => this.makeIdle(session))
+          .catch((error) => {
+            console.warn('⚠️ No se pudo precalentar una sesión:', error);
+            this.serveWaiters();
+          })
+      );
+    }
+
+    await Promise.all(tasks);
+  }
+
+  async acquire(): Promise<PooledSession> {
+    const session = this.takeIdle();
+    if (session) {
+      return this.checkout(session);
+    }
+
+    if (this.totalCount() < this.options.size) {
+      return this.checkout(await this.createSession());
+    }
+
+    return new Promise<PooledSession>((resolve, reject) => {
+      const waiter: Waiter = {
+        resolve,
+        reject,
+        settled: false,
+        timer: setTimeout(() => {
+          waiter.settled = true;
+          this.waiters = this.waiters.filter((w) => w !== waiter);
+          reject(new Error(`No hay sesiones disponibles después de ${this.options.acquireTimeoutMs}ms`));
+        }, this.options.acquireTimeoutMs),
+      };
+      this.waiters.push(waiter);
+    });
+  }
+
+  /**
+   * Return a session to the pool.
+   * Pass failed=true when the quote made with it did not succeed.
+   */
+  release(session: PooledSession, failed = false): void {
+    if (!this.inUse.delete(session)) return;
+
+    session.lastUsedAt = Date.now();
+    if (failed) {
+      session.errorCount++;
+    }
+
+    if (this.shouldRecycle(session)) {
+      this.recycled++;
+      log(`♻️ Sesión #${session.id} reciclada (usos: ${session.uses}, errores: ${session.errorCount})`);
+      this.serveWaiters();
+      this.replenish();
+      return;
+    }
+
+    this.makeIdle(session);
+  }
+
+  async withSession<T>(fn: (client: MercantilSegurosAPIClient) => Promise<T>, isFailure?: (result: T) => boolean): Promise<T> {
+    const session = await this.acquire();
+    try {
+      const result = await fn(session.client);
+      this.release(session, isFailure ? isFailure(result) : false);
+      return result;
+    } catch (error) {
+      this.release(session, true);
+      throw error;
+    }
+  }
+
+  getStats(): SessionPoolStats {
+    return {
+      size: this.options.size,
+      total: this.idle.length + this.inUse.size,
+      idle: this.idle.length,
+      inUse: this.inUse.size,
+      creating: this.creating,
+      waiting: this.waiters.length,
+      created: this.created,
+      recycled: this.recycled,
+    };
+  }
+
+  private totalCount(): number {
+    return this.idle.length + this.inUse.size + this.creating;
+  }
+
+  private shouldRecycle(session: PooledSession): boolean {
+    return (
+      session.errorCount >= this.options.maxErrors ||
+      Date.now() - session.createdAt >= this.options.maxAgeMs
+    );
+  }
+
+  private takeIdle(): PooledSession | null {
+    while (this.idle.length > 0) {
+      const session = this.idle.shift()!;
+      if (!this.shouldRecycle(session)) {
+        return session;
+      }
+      this.recycled++;
+      this.replenish();
+    }
+    return null;
+  }
+
+  /**
+   * Warm replacement sessions in the background after a recycle, if the pool is kept warm
+   */
+  private replenish(): void {
+    if (this.keepWarm) {
+      this.fill().catch(() => {});
+    }
+  }
+
+  private checkout(session: PooledSession): PooledSession {
+    session.uses++;
+    session.lastUsedAt = Date.now();
+    this.inUse.add(session);
+    return session;
+  }
+
+  private makeIdle(session: PooledSession): void {
+    const waiter = this.waiters.shift();
+    if (waiter) {
+      clearTimeout(waiter.timer);
+      waiter.settled = true;
+      waiter.resolve(this.checkout(session));
+      return;
+    }
+    this.idle.push(session);
+  }
+
+  /**
+   * Open new sessions for queued callers after capacity was freed
+   */
+  private serveWaiters(): void {
+    while (this.waiters.length > 0 && this.totalCount() < this.options.size) {
+      const waiter = this.waiters.shift()!;
+      this.createSession()
+        .then((session) => {
+          if (waiter.settled) {
+            // The caller timed out while the session was being opened; keep it for the next one
+            this.makeIdle(session);
+            return;
+          }
+          clearTimeout(waiter.timer);
+          waiter.settled = true;
+          waiter.resolve(this.checkout(session));
+        })
+        .catch((error) => {
+          if (waiter.settled) return;
+          clearTimeout(waiter.timer);
+          waiter.settled = true;
+          waiter.reject(error instanceof Error ? error : new Error(String(error)));
+        });
+    }
+  }
+
+  /**
+   * A new API client with its session already established
+   */
+  protected async openClient(): Promise<MercantilSegurosAPIClient> {
+    const client = new MercantilSegurosAPIClient();
+    await client.establishSession();
+    return client;
+  }
+
+  private async createSession(): Promise<PooledSession> {
+    this.creating++;
+    try {
+      const client = await this.openClient();
+      const now = Date.now();
+      this.created++;
+      return {
+        id: this.nextId++,
+        client,
+        createdAt: now,
+        lastUsedAt: now,
+        uses: 0,
+        errorCount: 0,
+      };
+    } finally {
+      this.creating--;
+    }
+  }
+}
+
+let sharedPool: SessionPool | null = null;
+
+/**
+ * Process-wide pool used by the HTTP quote strategy, sized by the concurrency settings.
+ * It starts empty; the Next.js server warms it at startup (instrumentation.ts).
+ */
+export function getSessionPool(): SessionPool {
+  if (!sharedPool) {
+    const { concurrency } = getAppConfig();
+    sharedPool = new SessionPool({
+      size: concurrency.sessionPoolSize,
+      maxAgeMs: concurrency.sessionMaxAgeMs,
+      maxErrors: concurrency.sessionMaxErrors,
+    });
+  }
+  return sharedPool;
+}
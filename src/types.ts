@@ -10,9 +10,25 @@ export interface QuoteConfig {
 }
 
 export interface QuotePlan {
-  name: string;
-  price: string;
-  planId: string;
+  name: string; // Plan title and coverage as shown on the card, one per line
+  price: string; // Formatted price as shown on the card, e.g. "USD 45.00"
+  planId: string; // Form ID on the quote page, e.g. "D-50"
+  title: string; // Plan title without the coverage line
+  coverageAmount: number | null; // Coverage limit, e.g. 50000
+  currency: string; // ISO currency code, e.g. "USD"
+  priceMinor: number | null; // Card price in minor units (cents)
+  pricePerPassengerMinor: number | null; // Price per passenger in minor units, when it can be determined
+  totalPriceMinor: number | null; // Price for all passengers in minor units, when it can be determined
+  rawText: string; // Card text as extracted, kept for auditing
+  benefits: PlanBenefit[]; // Coverage details listed for this plan
+}
+
+export interface PlanBenefit {
+  name: string; // e.g. "Gastos médicos por accidente"
+  limit: number | null; // Maximum covered amount, or quantity for non-monetary units
+  deductible: number | null;
+  unit: string | null; // Currency code for amounts, otherwise e.g. "días" or "%"
+  text: string; // Value as shown on the page, e.g. "USD 50.000 (Deducible USD 100)"
 }
 
 export interface QuoteData {
@@ -20,13 +36,30 @@ export interface QuoteData {
   contentLength: number;
   plans?: QuotePlan[];
   planCount?: number;
+  schemaVersion?: number; // Version of the extraction schema that produced the plans
+}
+
+export interface ExtractionIssue {
+  field: string; // Schema field that could not be resolved, e.g. "price"
+  selectors: string[]; // Selectors that were tried, in order
+  message: string;
+  planIndex?: number; // Card position, when the issue is specific to one plan
 }
 
+export type QuoteStrategy = 'http' | 'browser';
+
 export interface QuoteResult {
   success: boolean;
   quoteData?: QuoteData;
   error?: string;
   screenshotPath?: string;
+  strategy?: QuoteStrategy; // Which path produced this result
+  durationMs?: number; // Total time spent generating the quote, including any fallback
+  fallbackReason?: string; // Why the HTTP path was abandoned, when the browser was used
+  validationErrors?: QuoteValidationError[]; // Why the config was rejected before quoting
+  quoteId?: string; // ID in the quote history, when the request was recorded
+  shareId?: string; // ID for the shareable /quote/<shareId> link
+  shareExpiresAt?: string;
 }
 
 export interface CatalogOption {
@@ -78,4 +111,154 @@ export interface PurchaseFormResult {
   purchaseFormData?: PurchaseFormData;
   error?: string;
   screenshotPath?: string;
-}
\ No newline at end of file
+}
+export type QuoteValidationCode =
+  | 'INVALID_TRIP_TYPE'
+  | 'UNKNOWN_ORIGIN'
+  | 'UNKNOWN_DESTINATION'
+  | 'DESTINATION_NOT_ALLOWED'
+  | 'AMBIGUOUS_MATCH'
+  | 'UNKNOWN_AGENT'
+  | 'INVALID_PASSENGERS'
+  | 'AGES_MISMATCH'
+  | 'INVALID_AGE'
+  | 'INVALID_DATE'
+  | 'RETURN_BEFORE_DEPARTURE';
+
+export interface QuoteValidationError {
+  code: QuoteValidationCode;
+  field: keyof QuoteConfig;
+  message: string;
+  value?: unknown; // Offending value, as received
+  candidates?: string[]; // Closest catalog entries, for unknown or ambiguous values
+}
+
+export interface CatalogVersion {
+  id: string; // Sortable timestamp, e.g. "2026-10-19T08-30-00-000Z"
+  createdAt: string;
+  source: string; // Where the snapshot came from, e.g. "browser-scrape" or "import"
+  counts: { tripTypes: number; origins: number; destinations: number; agents: number };
+  promotedAt?: string; // Last time this snapshot became the live catalog
+}
+
+export interface CatalogOptionDiff {
+  added: CatalogOption[];
+  removed: CatalogOption[];
+  renamed: Array<{ value: string; from: string; to: string }>; // Same value, different text
+}
+
+export interface CatalogDiff {
+  from: string; // Version IDs
+  to: string;
+  tripTypes: CatalogOptionDiff;
+  origins: CatalogOptionDiff;
+  destinations: { [tripType: string]: CatalogOptionDiff };
+  agents: CatalogOptionDiff;
+  hasChanges: boolean;
+}
+
+export interface AgentEntry {
+  id: number; // Numeric agent ID submitted with the quote, e.g. 544
+  value: string; // Same ID as in the catalog option
+  text: string; // As listed by Mercantil, e.g. "Abadi Labaton, Luis (MRP006119)"
+  name: string; // Text without the code, e.g. "Abadi Labaton, Luis"
+  lastName: string | null; // Null for agencies
+  firstName: string | null;
+  mrpCode: string | null; // Producer code, e.g. "MRP006119"
+  isAgency: boolean;
+}
+
+export interface AgentSearchResult {
+  items: AgentEntry[];
+  total: number;
+  page: number; // 1-based
+  pageSize: number;
+  totalPages: number;
+}
+
+export interface QuoteRecordSummary {
+  id: string;
+  createdAt: string; // ISO timestamp of the request
+  tripType: string;
+  origin: string;
+  destination: string;
+  departureDate: string; // DD/MM/YYYY, as quoted
+  returnDate: string;
+  passengers: number;
+  agent: string | null;
+  success: boolean;
+  strategy: QuoteStrategy | null;
+  durationMs: number | null;
+  planCount: number;
+  lowestPriceMinor: number | null; // Cheapest plan, in minor units
+  currency: string | null;
+  error: string | null;
+}
+
+export interface QuoteRecord extends QuoteRecordSummary {
+  config: QuoteConfig; // Input as submitted, after catalog resolution
+  plans: QuotePlan[];
+  quoteUrl: string | null;
+  schemaVersion: number | null;
+  fallbackReason: string | null;
+  validationErrors: QuoteValidationError[];
+  shareId: string; // Unguessable ID used in /quote/<shareId> links
+  expiresAt: string; // ISO timestamp after which the shared link stops working
+}
+
+// A stored quote as the history API returns it; the share ID is only handed out by the request that created the quote
+export type QuoteHistoryRecord = Omit<QuoteRecord, 'shareId'>;
+
+export interface QuoteHistoryFilter {
+  from?: string; // YYYY-MM-DD, inclusive, on the request date
+  to?: string; // YYYY-MM-DD, inclusive
+  origin?: string;
+  destination?: string;
+  agent?: string;
+  success?: boolean;
+  limit?: number;
+  offset?: number;
+}
+
+export interface PlanPriceChange {
+  planId: string;
+  title: string;
+  currency: string;
+  previousMinor: number | null; // Total price in the original quote, null when the plan is new
+  currentMinor: number | null; // Total price in the re-quote, null when the plan is gone
+  differenceMinor: number | null;
+  percentChange: number | null;
+  status: 'up' | 'down' | 'unchanged' | 'added' | 'removed';
+}
+
+export type PricingExportFormat = 'json' | 'csv';
+
+// Layouts from PRICING_TABLE_FORMAT.md (Option 1 for JSON, Option 2 for CSV)
+export interface PricingTablePlan {
+  planId: string;
+  name: string;
+  price: number; // Total for all passengers, in major units
+  priceFormatted: string;
+}
+
+export interface PricingTableEntry {
+  tripType: string;
+  tripTypeId: string;
+  origin: { id: string; name: string };
+  destination: { id: string; name: string };
+  dateRange: { minDays: number; maxDays: number; dateBased: boolean };
+  passengerConfig: { count: number; ages: number[] };
+  plans: PricingTablePlan[];
+  agent: string;
+}
+
+export interface PricingTable {
+  metadata: {
+    version: string;
+    generatedAt: string;
+    validFrom: string; // YYYY-MM-DD
+    validTo: string;
+    currency: string;
+  };
+  pricing: PricingTableEntry[];
+}
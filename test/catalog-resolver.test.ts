@@ -0,0 +1,56 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { CatalogMatch, CatalogResolver, MIN_MATCH_SCORE, normalizeText, resolveCatalogOption } from '../src/catalog-resolver';
+import { TEST_CATALOG } from './test-catalog';
+
+const resolver = new CatalogResolver(TEST_CATALOG);
+
+function matchedText(match: CatalogMatch): string | null {
+  return match.status === 'matched' ? match.option.text : null;
+}
+
+test('lookups ignore accents, case and punctuation', () => {
+  assert.equal(normalizeText("Côte d'Ivoire"), 'cote d ivoire');
+  assert.equal(matchedText(resolver.resolveOrigin('panama')), 'Panamá');
+  assert.equal(matchedText(resolver.resolveOrigin('  PANAMÁ ')), 'Panamá');
+  assert.equal(matchedText(resolver.resolveTripType('viajes por dia')), 'Viajes Por Día');
+});
+
+test('Spanish names, ISO codes and aliases find the catalog entry', () => {
+  assert.equal(matchedText(resolver.resolveOrigin('República Dominicana')), 'Dominican Republic');
+  assert.equal(matchedText(resolver.resolveOrigin('DO')), 'Dominican Republic');
+  assert.equal(matchedText(resolver.resolveOrigin('pan')), 'Panamá');
+  assert.equal(matchedText(resolver.resolveDestination('Europe', 'Viajes Por Día')), 'Europa');
+  assert.equal(matchedText(resolver.resolveTripType('Annual')), 'Anual Multiviaje');
+  assert.equal(matchedText(resolver.resolveAgent('2851')), 'Risk Management Seguros, S.a. (rm Seguros)');
+});
+
+test('typos still resolve', () => {
+  assert.equal(matchedText(resolver.resolveOrigin('Venezula')), 'Venezuela');
+});
+
+test('candidates close to the best one make the lookup ambiguous', () => {
+  const match = resolver.resolveOrigin('domin');
+  assert.equal(match.status, 'ambiguous');
+  assert.deepEqual(match.status === 'ambiguous' && match.candidates.map((candidate) => candidate.option.text), ['Dominica', 'Dominican Republic']);
+
+  // An exact name is not contested by longer names that start with it
+  assert.equal(matchedText(resolver.resolveOrigin('Guinea')), 'Guinea');
+  assert.equal(resolver.resolveOrigin('guin').status, 'ambiguous');
+});
+
+test('an exact name duplicated in the catalog is ambiguous', () => {
+  const options = [{ value: '1', text: 'Europa' }, { value: '9', text: 'Europa' }];
+  assert.equal(resolveCatalogOption(options, 'Europa').status, 'ambiguous');
+});
+
+test('weak matches below MIN_MATCH_SCORE are only suggestions', () => {
+  const match = resolver.resolveOrigin('nama');
+  assert.equal(match.status, 'not_found');
+  assert.ok(match.status === 'not_found' && match.candidates.every((candidate) => candidate.score < MIN_MATCH_SCORE));
+  assert.deepEqual(match.status === 'not_found' && match.candidates.map((candidate) => candidate.option.text), ['Panamá']);
+
+  // Codes match exactly or not at all, and unknown trip types have no destinations
+  assert.equal(resolver.resolveOrigin('DOX').status, 'not_found');
+  assert.equal(resolver.resolveDestination('Europa', 'Crucero').status, 'not_found');
+});
@@ -0,0 +1,97 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+import { CatalogStore, diffCatalogs } from '../src/catalog-store';
+import { CatalogData } from '../src/types';
+import { TEST_CATALOG } from './test-catalog';
+
+function withAgents(count: number): CatalogData {
+  const agents = Array.from({ length: count }, (_, index) => ({ value: String(index + 1), text: `Agente ${index + 1}` }));
+  return { ...TEST_CATALOG, agents };
+}
+
+// A store over a temporary data directory whose live catalog has ten agents
+function createStore(t: { after: (fn: () => void) => void }): { store: CatalogStore; livePath: string } {
+  const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mercantil-catalog-'));
+  t.after(() => fs.rmSync(dataDir, { recursive: true, force: true }));
+  const livePath = path.join(dataDir, 'catalog.json');
+  fs.writeFileSync(livePath, JSON.stringify(withAgents(10)));
+  return { store: new CatalogStore(dataDir), livePath };
+}
+
+function readLive(livePath: string): CatalogData {
+  return JSON.parse(fs.readFileSync(livePath, 'utf-8'));
+}
+
+test('the catalog already live becomes the first version', (t) => {
+  const { store } = createStore(t);
+  const { current, versions } = store.list();
+
+  assert.equal(versions.length, 1);
+  assert.equal(versions[0].id, current);
+  assert.equal(versions[0].source, 'import');
+  assert.equal(versions[0].counts.agents, 10);
+});
+
+test('a scrape is only live once promoted', (t) => {
+  const { store, livePath } = createStore(t);
+  const version = store.save(withAgents(12), 'http-scrape');
+
+  assert.equal(readLive(livePath).agents.length, 10);
+  store.promote(version.id);
+  assert.equal(readLive(livePath).agents.length, 12);
+  assert.equal(store.getCurrentVersionId(), version.id);
+});
+
+test('a scrape that lost more than half of a list is rejected unless forced', (t) => {
+  const { store, livePath } = createStore(t);
+  const version = store.save(withAgents(4), 'http-scrape');
+
+  assert.throws(() => store.promote(version.id), /Los agentes bajaron de 10 a 4/);
+  assert.equal(readLive(livePath).agents.length, 10);
+
+  store.promote(version.id, { force: true });
+  assert.equal(readLive(livePath).agents.length, 4);
+});
+
+test('structural errors are never forced through', (t) => {
+  const { store, livePath } = createStore(t);
+  const broken = store.save({ ...withAgents(10), destinations: {} }, 'http-scrape');
+
+  assert.throws(() => store.promote(broken.id, { force: true }), /No hay destinos para "Viajes Por Día"/);
+  assert.equal(Object.keys(readLive(livePath).destinations).length, 2);
+});
+
+test('rollback makes the previous version live again, even if it is smaller', (t) => {
+  const { store, livePath } = createStore(t);
+  const small = store.save(withAgents(6), 'http-scrape');
+  store.promote(small.id);
+  const large = store.save(withAgents(14), 'http-scrape');
+  store.promote(large.id);
+
+  const restored = store.rollback();
+  assert.equal(restored.id, small.id);
+  assert.equal(store.getCurrentVersionId(), small.id);
+  assert.equal(readLive(livePath).agents.length, 6);
+
+  assert.throws(() => store.rollback('no-existe'), /Versión de catálogo no encontrada/);
+});
+
+test('diffs match options by value, so a changed text is a rename', () => {
+  const after: CatalogData = {
+    ...TEST_CATALOG,
+    origins: [
+      ...TEST_CATALOG.origins.filter((origin) => origin.value !== '80'),
+      { value: '300', text: 'Kosovo' },
+    ].map((origin) => (origin.value === '160' ? { ...origin, text: 'Panama' } : origin)),
+  };
+  const diff = diffCatalogs(TEST_CATALOG, after);
+
+  assert.equal(diff.hasChanges, true);
+  assert.deepEqual(diff.origins.added.map((option) => option.text), ['Kosovo']);
+  assert.deepEqual(diff.origins.removed.map((option) => option.text), ['Guinea']);
+  assert.deepEqual(diff.origins.renamed, [{ value: '160', from: 'Panamá', to: 'Panama' }]);
+  assert.equal(diffCatalogs(TEST_CATALOG, TEST_CATALOG).hasChanges, false);
+});
@@ -0,0 +1,102 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+import { CONFIG_DEFAULTS, loadAppConfig, mergeConfig } from '../src/config';
+
+// Next's typings make NODE_ENV required on ProcessEnv
+function testEnv(values: Record<string, string> = {}): NodeJS.ProcessEnv {
+  return values as NodeJS.ProcessEnv;
+}
+
+// A working directory with the given files, removed after the test
+function createWorkingDir(t: { after: (fn: () => void) => void }, files: Record<string, string> = {}): string {
+  const cwd = fs.mkdtempSync(path.join(os.tmpdir(), 'mercantil-config-'));
+  t.after(() => fs.rmSync(cwd, { recursive: true, force: true }));
+  for (const [name, contents] of Object.entries(files)) {
+    fs.writeFileSync(path.join(cwd, name), contents);
+  }
+  return cwd;
+}
+
+test('without a file or variables the defaults apply, with paths under the working directory', (t) => {
+  const cwd = createWorkingDir(t);
+  const config = loadAppConfig(testEnv(), cwd);
+
+  assert.equal(config.baseUrl, CONFIG_DEFAULTS.baseUrl);
+  assert.deepEqual(config.timeouts, CONFIG_DEFAULTS.timeouts);
+  assert.equal(config.adminApiOpen, false);
+  assert.equal(config.dataDir, path.join(cwd, 'data'));
+  assert.equal(config.history.dbPath, path.join(cwd, 'data', 'quotes.db'));
+  assert.equal(config.recording.dir, path.join(cwd, 'fixtures', 'recordings'));
+});
+
+test('defaults < config file < environment < overrides', (t) => {
+  const cwd = createWorkingDir(t, {
+    'mercantil.config.json': JSON.stringify({
+      defaultAgent: '544',
+      timeouts: { navigationMs: 1000, formMs: 2000 },
+      quote: { origin: 'Venezuela', ages: [40] },
+    }),
+  });
+  const config = loadAppConfig(testEnv({ MERCANTIL_NAVIGATION_TIMEOUT_MS: '3000', MERCANTIL_AGES: '35, 32' }), cwd);
+
+  assert.equal(config.defaultAgent, '544'); // File over default
+  assert.equal(config.timeouts.formMs, 2000);
+  assert.equal(config.timeouts.navigationMs, 3000); // Environment over file
+  assert.equal(config.timeouts.resultsMs, CONFIG_DEFAULTS.timeouts.resultsMs);
+  assert.equal(config.quote.origin, 'Venezuela');
+  assert.deepEqual(config.quote.ages, [35, 32]);
+
+  const merged = mergeConfig(config, { timeouts: { navigationMs: 4000 }, headless: false });
+  assert.equal(merged.timeouts.navigationMs, 4000); // Override over environment
+  assert.equal(merged.timeouts.formMs, 2000);
+  assert.equal(merged.headless, false);
+  assert.equal(config.timeouts.navigationMs, 3000); // The loaded config is left alone
+});
+
+test('MERCANTIL_CONFIG selects a YAML file and relative paths follow the working directory', (t) => {
+  const cwd = createWorkingDir(t, {
+    'staging.yaml': 'baseUrl: http://127.0.0.1:4010/\ndataDir: shared/data\nrecording:\n  mode: replay\n',
+  });
+  const config = loadAppConfig(testEnv({ MERCANTIL_CONFIG: 'staging.yaml', QUOTE_DB_PATH: 'db/history.db' }), cwd);
+
+  assert.equal(config.baseUrl, 'http://127.0.0.1:4010');
+  assert.equal(config.recording.mode, 'replay');
+  assert.equal(config.dataDir, path.join(cwd, 'shared', 'data'));
+  // Set explicitly, so relative to the working directory rather than dataDir
+  assert.equal(config.history.dbPath, path.join(cwd, 'db', 'history.db'));
+});
+
+test('the history database follows dataDir unless it is set', (t) => {
+  const cwd = createWorkingDir(t);
+  const config = loadAppConfig(testEnv({ MERCANTIL_DATA_DIR: '/srv/mercantil' }), cwd);
+
+  assert.equal(config.dataDir, '/srv/mercantil');
+  assert.equal(config.history.dbPath, path.join('/srv/mercantil', 'quotes.db'));
+});
+
+test('every invalid setting is reported at once', (t) => {
+  const cwd = createWorkingDir(t, {
+    'mercantil.config.json': JSON.stringify({ timeout: 5, recording: { mode: 'live' } }),
+  });
+
+  assert.throws(
+    () => loadAppConfig(testEnv({ QUOTE_POOL_SIZE: '0', MERCANTIL_HEADLESS: 'maybe', MERCANTIL_DEPARTURE_DATE: '2026-01-13' }), cwd),
+    (error: Error) => {
+      for (const problem of [
+        'opción desconocida "timeout"',
+        'recording.mode debe ser uno de: off, record, replay',
+        'QUOTE_POOL_SIZE debe ser un entero positivo',
+        'MERCANTIL_HEADLESS debe ser true o false',
+        'MERCANTIL_DEPARTURE_DATE debe tener el formato DD/MM/AAAA',
+      ]) {
+        assert.ok(error.message.includes(problem), `falta "${problem}" en: ${error.message}`);
+      }
+      return true;
+    }
+  );
+  assert.throws(() => mergeConfig(CONFIG_DEFAULTS, { baseUrl: 'ftp://example.com' }), /baseUrl debe ser una URL http\(s\)/);
+  assert.throws(() => loadAppConfig(testEnv({ MERCANTIL_CONFIG: 'missing.yaml' }), cwd), /No se encontró el archivo de configuración/);
+});
@@ -0,0 +1,70 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { CookieJar } from '../src/cookie-jar';
+
+const QUOTE_URL = 'https://www1.mercantilseguros.com/as/viajesint/MRP022052';
+
+test('host-only cookies stay on their host; Domain cookies reach subdomains', () => {
+  const jar = new CookieJar();
+  jar.setCookie('PHPSESSID=abc; Path=/', QUOTE_URL);
+  jar.setCookie('lb=node1; Domain=.mercantilseguros.com; Path=/', QUOTE_URL);
+
+  assert.equal(jar.getCookieHeader('https://www1.mercantilseguros.com/'), 'PHPSESSID=abc; lb=node1');
+  assert.equal(jar.getCookieHeader('https://pagos.mercantilseguros.com/'), 'lb=node1');
+  assert.equal(jar.getCookieHeader('https://mercantilseguros.com.evil.test/'), '');
+});
+
+test('cookies for a domain the response host does not belong to are rejected', () => {
+  const jar = new CookieJar();
+  jar.setCookie('tracker=1; Domain=example.com', QUOTE_URL);
+  jar.setCookie('sub=1; Domain=pagos.mercantilseguros.com', QUOTE_URL);
+
+  assert.equal(jar.size, 0);
+});
+
+test('paths match on whole segments and default to the request directory', () => {
+  const jar = new CookieJar();
+  jar.setCookie('scoped=1; Path=/as', QUOTE_URL);
+  jar.setCookie('default=1', QUOTE_URL);
+
+  assert.equal(jar.getCookieHeader('https://www1.mercantilseguros.com/as'), 'scoped=1');
+  assert.equal(jar.getCookieHeader('https://www1.mercantilseguros.com/asx'), '');
+  assert.equal(jar.getCookieHeader('https://www1.mercantilseguros.com/as/viajesint/MRP022052/quotation'), 'default=1; scoped=1');
+  assert.equal(jar.getCookies(QUOTE_URL).find((cookie) => cookie.name === 'default')?.path, '/as/viajesint');
+});
+
+test('Secure cookies are only sent over https', () => {
+  const jar = new CookieJar();
+  jar.setCookie('token=1; Secure; Path=/', QUOTE_URL);
+
+  assert.equal(jar.getCookieHeader('http://www1.mercantilseguros.com/'), '');
+  assert.equal(jar.getCookieHeader('https://www1.mercantilseguros.com/'), 'token=1');
+});
+
+test('expired cookies delete the stored one and Max-Age wins over Expires', (t) => {
+  const jar = new CookieJar();
+  jar.setCookie('PHPSESSID=abc; Path=/', QUOTE_URL);
+  jar.setCookie('PHPSESSID=gone; Path=/; Max-Age=0', QUOTE_URL);
+  assert.equal(jar.size, 0);
+
+  jar.setCookie('old=1; Path=/; Expires=Thu, 01 Jan 1970 00:00:01 GMT', QUOTE_URL);
+  assert.equal(jar.size, 0);
+
+  jar.setCookie('short=1; Path=/; Expires=Thu, 01 Jan 1970 00:00:01 GMT; Max-Age=60', QUOTE_URL);
+  assert.equal(jar.getCookieHeader(QUOTE_URL), 'short=1');
+
+  const now = Date.now();
+  t.mock.method(Date, 'now', () => now + 61 * 1000);
+  assert.equal(jar.getCookieHeader(QUOTE_URL), '');
+  assert.equal(jar.size, 0);
+});
+
+test('several Set-Cookie headers are kept apart even with commas in Expires', () => {
+  const jar = new CookieJar();
+  const headers = new Headers();
+  headers.append('set-cookie', 'a=1; Path=/; Expires=Wed, 01 Jan 2098 00:00:00 GMT');
+  headers.append('set-cookie', 'b=2; Path=/');
+  jar.storeFromResponse(new Response(null, { headers }), QUOTE_URL);
+
+  assert.equal(jar.getCookieHeader(QUOTE_URL), 'a=1; b=2');
+});
@@ -0,0 +1,53 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import { extractQuotePlans } from '../src/quote-extractor';
+import { extractPurchaseForms } from '../src/purchase-form-extractor';
+
+/**
+ * Golden-file cases: each saved HTML fixture is run through a parser and the
+ * result is compared with the JSON stored in test/goldens. After a deliberate
+ * parser or fixture change, regenerate them with `npm run test:update-goldens`
+ * and review the diff.
+ */
+
+export interface GoldenCase {
+  name: string; // Also the golden file name
+  fixture: string; // File in test/fixtures
+  parser: 'quote-plans' | 'purchase-forms';
+  passengers?: number; // Passed to extractQuotePlans for per-passenger prices
+}
+
+export const FIXTURES_DIR = path.join(__dirname, 'fixtures');
+export const GOLDENS_DIR = path.join(__dirname, 'goldens');
+
+export const GOLDEN_CASES: GoldenCase[] = [
+  // Copied from debug/: a real "No existen resultados" response and its truncated snippet
+  { name: 'quote-no-results', fixture: 'quote-no-results.html', parser: 'quote-plans', passengers: 1 },
+  { name: 'quote-no-results-snippet', fixture: 'quote-no-results-snippet.html', parser: 'quote-plans', passengers: 1 },
+  // Served by the fake server (npm run fake-server)
+  { name: 'quote-daily-europa', fixture: 'quote-daily-europa.html', parser: 'quote-plans', passengers: 2 },
+  { name: 'quote-annual-mundial', fixture: 'quote-annual-mundial.html', parser: 'quote-plans', passengers: 1 },
+  { name: 'purchase-form-two-passengers', fixture: 'purchase-form-two-passengers.html', parser: 'purchase-forms' },
+  // Hand-written: fallback selectors, card benefit lists, Spanish amounts, HTML entities, label strategies
+  { name: 'quote-card-benefits', fixture: 'quote-card-benefits.html', parser: 'quote-plans', passengers: 3 },
+  // A benefit priced "por persona" must not make the card price per passenger
+  { name: 'quote-per-person-benefit', fixture: 'quote-per-person-benefit.html', parser: 'quote-plans', passengers: 3 },
+  // Comparison table whose column "D-300" must not be read as plan D-30
+  { name: 'quote-benefit-table-similar-ids', fixture: 'quote-benefit-table-similar-ids.html', parser: 'quote-plans', passengers: 1 },
+  { name: 'purchase-form-label-strategies', fixture: 'purchase-form-label-strategies.html', parser: 'purchase-forms' },
+];
+
+/**
+ * Parse the case's fixture; the result is JSON-normalized so it compares equal to the parsed golden
+ */
+export function runGoldenCase(goldenCase: GoldenCase): unknown {
+  const html = fs.readFileSync(path.join(FIXTURES_DIR, goldenCase.fixture), 'utf-8');
+  const result = goldenCase.parser === 'quote-plans'
+    ? extractQuotePlans(html, goldenCase.passengers)
+    : extractPurchaseForms(html);
+  return JSON.parse(JSON.stringify(result));
+}
+
+export function goldenPath(goldenCase: GoldenCase): string {
+  return path.join(GOLDENS_DIR, `${goldenCase.name}.json`);
+}
@@ -0,0 +1,14 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import { GOLDEN_CASES, goldenPath, runGoldenCase } from './golden-cases';
+
+for (const goldenCase of GOLDEN_CASES) {
+  test(`${goldenCase.parser}: ${goldenCase.name}`, () => {
+    const file = goldenPath(goldenCase);
+    assert.ok(fs.existsSync(file), `Falta ${file}; ejecute npm run test:update-goldens`);
+
+    const expected = JSON.parse(fs.readFileSync(file, 'utf-8'));
+    assert.deepEqual(runGoldenCase(goldenCase), expected);
+  });
+}
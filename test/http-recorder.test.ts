@@ -0,0 +1,48 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+import { MercantilSegurosAPIClient } from '../src/api-client';
+import { getDefaultQuoteConfig } from '../src/config';
+import { FakeMercantilServer } from '../src/fake-server';
+import { HttpRecorder, requestSignature } from '../src/http-recorder';
+
+const QUOTATION_URL = 'https://www1.mercantilseguros.com/as/viajesint/MRP022052/quotation';
+
+test('requests that differ only in session tokens and field order share a signature', () => {
+  const first = requestSignature('POST', QUOTATION_URL,
+    'websitebundle_quotation_search%5Buuid%5D=&websitebundle_quotation_search%5Borigin%5D=160&websitebundle_quotation_search%5B_token%5D=aaa');
+  const second = requestSignature('post', 'http://127.0.0.1:4010/as/viajesint/MRP022052/quotation',
+    'websitebundle_quotation_search%5B_token%5D=bbb&websitebundle_quotation_search%5Borigin%5D=160&websitebundle_quotation_search%5Buuid%5D=f00d');
+
+  assert.equal(first, second);
+  assert.equal(first, 'POST /as/viajesint/MRP022052/quotation websitebundle_quotation_search[origin]=160');
+  assert.notEqual(first, requestSignature('POST', QUOTATION_URL, 'websitebundle_quotation_search%5Borigin%5D=161'));
+});
+
+test('a quote replayed from its recording matches the recorded quote without network access', async (t) => {
+  const recordingsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mercantil-recordings-'));
+  t.after(() => fs.rmSync(recordingsDir, { recursive: true, force: true }));
+  const config = getDefaultQuoteConfig();
+
+  const server = new FakeMercantilServer();
+  const baseUrl = await server.start(0);
+  let recorded;
+  try {
+    recorded = await new MercantilSegurosAPIClient(baseUrl, new HttpRecorder('record', recordingsDir)).generateQuote(config);
+  } finally {
+    await server.stop();
+  }
+  assert.equal(recorded.success, true, recorded.error);
+  // The quote page and the quotation POST
+  assert.equal(fs.readdirSync(recordingsDir).length, 2);
+
+  // Replay must not reach the network at all
+  t.mock.method(globalThis, 'fetch', () => {
+    throw new Error('La reproducción no debe usar la red');
+  });
+  const replayed = await new MercantilSegurosAPIClient(baseUrl, new HttpRecorder('replay', recordingsDir)).generateQuote(config);
+
+  assert.deepEqual(replayed, recorded);
+});
@@ -0,0 +1,67 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { parseDayMonthYear, resolveQuoteConfig, validateQuoteConfig } from '../src/quote-validator';
+import { QuoteConfig, QuoteValidationCode } from '../src/types';
+import { TEST_CATALOG } from './test-catalog';
+
+const VALID_CONFIG: QuoteConfig = {
+  tripType: 'Viajes Por Día',
+  origin: 'Panamá',
+  destination: 'Europa',
+  departureDate: '13/01/2026',
+  returnDate: '15/01/2026',
+  passengers: 2,
+  ages: [35, 32],
+  agent: '2851',
+};
+
+function errorCodes(changes: Partial<QuoteConfig> | Record<string, unknown>): QuoteValidationCode[] {
+  return validateQuoteConfig({ ...VALID_CONFIG, ...changes } as QuoteConfig, TEST_CATALOG).map((error) => error.code);
+}
+
+test('a valid config resolves to the exact catalog texts', () => {
+  const { config, errors } = resolveQuoteConfig(
+    { ...VALID_CONFIG, tripType: 'viajes por dia' as QuoteConfig['tripType'], origin: 'panama', destination: 'europe', agent: 'rm seguros' },
+    TEST_CATALOG
+  );
+
+  assert.deepEqual(errors, []);
+  assert.equal(config.tripType, 'Viajes Por Día');
+  assert.equal(config.origin, 'Panamá');
+  assert.equal(config.destination, 'Europa');
+  assert.equal(config.agent, '2851');
+});
+
+test('each catalog field reports its own error code', () => {
+  assert.deepEqual(errorCodes({ tripType: 'Crucero' }), ['INVALID_TRIP_TYPE']);
+  assert.deepEqual(errorCodes({ origin: 'Atlantis' }), ['UNKNOWN_ORIGIN']);
+  assert.deepEqual(errorCodes({ destination: 'Antártida' }), ['UNKNOWN_DESTINATION']);
+  assert.deepEqual(errorCodes({ destination: 'Mundial' }), ['DESTINATION_NOT_ALLOWED']);
+  assert.deepEqual(errorCodes({ origin: 'domin' }), ['AMBIGUOUS_MATCH']);
+  assert.deepEqual(errorCodes({ agent: '999999' }), ['UNKNOWN_AGENT']);
+});
+
+test('passengers, ages and dates are checked', () => {
+  assert.deepEqual(errorCodes({ passengers: 0, ages: [] }), ['INVALID_PASSENGERS']);
+  assert.deepEqual(errorCodes({ passengers: 9, ages: [30, 30, 30, 30, 30, 30, 30, 30, 30] }), ['INVALID_PASSENGERS']);
+  assert.deepEqual(errorCodes({ ages: [35] }), ['AGES_MISMATCH']);
+  assert.deepEqual(errorCodes({ ages: '35,32' }), ['AGES_MISMATCH']);
+  assert.deepEqual(errorCodes({ ages: [35, 120] }), ['INVALID_AGE']);
+  assert.deepEqual(errorCodes({ departureDate: '31/02/2026' }), ['INVALID_DATE']);
+  assert.deepEqual(errorCodes({ returnDate: '2026-01-15' }), ['INVALID_DATE']);
+  assert.deepEqual(errorCodes({ returnDate: '13/01/2026' }), ['RETURN_BEFORE_DEPARTURE']);
+});
+
+test('errors carry the field, the value and the candidates', () => {
+  const [error] = validateQuoteConfig({ ...VALID_CONFIG, destination: 'Mundial' }, TEST_CATALOG);
+
+  assert.equal(error.field, 'destination');
+  assert.equal(error.value, 'Mundial');
+  assert.deepEqual(error.candidates, ['Europa', 'Resto del Mundo']);
+});
+
+test('DD/MM/YYYY dates reject impossible calendar days', () => {
+  assert.equal(parseDayMonthYear('29/02/2028')?.toISOString(), '2028-02-29T00:00:00.000Z');
+  assert.equal(parseDayMonthYear('29/02/2026'), null);
+  assert.equal(parseDayMonthYear('1/2/2026'), null);
+});
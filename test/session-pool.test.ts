@@ -0,0 +1,73 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { setTimeout as sleep } from 'timers/promises';
+import { MercantilSegurosAPIClient } from '../src/api-client';
+import { getDefaultQuoteConfig } from '../src/config';
+import { FakeMercantilServer } from '../src/fake-server';
+import { SessionPool, SessionPoolOptions } from '../src/session-pool';
+
+// Opens sessions after a fixed delay instead of calling Mercantil
+class SlowSessionPool extends SessionPool {
+  constructor(options: SessionPoolOptions, private openDelayMs: number) {
+    super(options);
+  }
+
+  protected async openClient(): Promise<MercantilSegurosAPIClient> {
+    await sleep(this.openDelayMs);
+    return {} as MercantilSegurosAPIClient;
+  }
+}
+
+// Opens real sessions against the local stand-in server
+class FakeServerSessionPool extends SessionPool {
+  constructor(options: SessionPoolOptions, private baseUrl: string) {
+    super(options);
+  }
+
+  protected async openClient(): Promise<MercantilSegurosAPIClient> {
+    const client = new MercantilSegurosAPIClient(this.baseUrl, null);
+    await client.establishSession();
+    return client;
+  }
+}
+
+test('a session opened for a caller that already timed out goes back to idle', async () => {
+  const pool = new SlowSessionPool({ size: 1, maxErrors: 1, acquireTimeoutMs: 50 }, 100);
+
+  const first = await pool.acquire();
+  const late = pool.acquire();
+  // Recycling the only session makes the pool open a new one for the queued caller
+  pool.release(first, true);
+
+  await assert.rejects(late, /No hay sesiones disponibles/);
+  await sleep(100);
+
+  assert.equal(pool.getStats().inUse, 0);
+  assert.equal(pool.getStats().idle, 1);
+
+  const next = await pool.acquire();
+  assert.equal(next.id, 2);
+  pool.release(next);
+});
+
+test('one pooled session quotes twice with fresh form tokens', async () => {
+  const server = new FakeMercantilServer();
+  const baseUrl = await server.start(0);
+  try {
+    const pool = new FakeServerSessionPool({ size: 1 }, baseUrl);
+    const config = getDefaultQuoteConfig();
+
+    // The stand-in server spends the _token on every quotation, like a one-time CSRF token
+    for (let i = 0; i < 2; i++) {
+      const result = await pool.withSession((client) => client.generateQuote(config), (quote) => !quote.success);
+      assert.equal(result.success, true, result.error);
+      assert.ok((result.quoteData?.plans?.length || 0) > 0);
+    }
+
+    const stats = pool.getStats();
+    assert.equal(stats.created, 1);
+    assert.equal(stats.idle, 1);
+  } finally {
+    await server.stop();
+  }
+});
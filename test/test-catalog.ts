@@ -0,0 +1,33 @@
+import { CatalogData } from '../src/types';
+
+/**
+ * A few real entries of data/catalog.json, so resolver and validator tests do not
+ * move when the live catalog is re-scraped
+ */
+export const TEST_CATALOG: CatalogData = {
+  tripTypes: [
+    { value: 'Viajes Por Día', text: 'Viajes Por Día' },
+    { value: 'Viajes Anuales', text: 'Anual Multiviaje' },
+  ],
+  origins: [
+    { value: '54', text: 'Dominica' },
+    { value: '55', text: 'Dominican Republic' },
+    { value: '80', text: 'Guinea' },
+    { value: '86', text: 'Guinea-Bissau' },
+    { value: '160', text: 'Panamá' },
+    { value: '217', text: 'Venezuela' },
+  ],
+  destinations: {
+    'Viajes Por Día': [
+      { value: '3', text: 'Europa' },
+      { value: '2', text: 'Resto del Mundo' },
+    ],
+    'Viajes Anuales': [
+      { value: '1', text: 'Mundial' },
+    ],
+  },
+  agents: [
+    { value: '2851', text: 'Risk Management Seguros, S.a. (rm Seguros)' },
+    { value: '544', text: 'Abadi Labaton, Luis (MRP006119)' },
+  ],
+};
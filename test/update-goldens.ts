@@ -0,0 +1,24 @@
+import * as fs from 'fs';
+import { GOLDEN_CASES, GOLDENS_DIR, goldenPath, runGoldenCase } from './golden-cases';
+
+/**
+ * Rewrite the golden JSON files from the current parsers.
+ * Pass case names to update only those: npm run test:update-goldens -- quote-daily-europa
+ */
+const names = process.argv.slice(2);
+const cases = names.length > 0 ? GOLDEN_CASES.filter((goldenCase) => names.includes(goldenCase.name)) : GOLDEN_CASES;
+
+const unknown = names.filter((name) => !GOLDEN_CASES.some((goldenCase) => goldenCase.name === name));
+if (unknown.length > 0) {
+  console.error(`❌ Casos desconocidos: ${unknown.join(', ')}`);
+  process.exitCode = 1;
+} else {
+  fs.mkdirSync(GOLDENS_DIR, { recursive: true });
+  for (const goldenCase of cases) {
+    const file = goldenPath(goldenCase);
+    const contents = `${JSON.stringify(runGoldenCase(goldenCase), null, 2)}\n`;
+    const changed = !fs.existsSync(file) || fs.readFileSync(file, 'utf-8') !== contents;
+    fs.writeFileSync(file, contents);
+    console.log(`${changed ? '💾 Actualizado' : '✅ Sin cambios'}: ${goldenCase.name}`);
+  }
+}